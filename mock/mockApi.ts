@@ -0,0 +1,68 @@
+import type { Plugin, ViteDevServer } from "vite"
+
+export const ROUTE_FIXTURES: Record<string, { costs: string; spreads: string }> = {
+  r1: { costs: "/src/data/cost.ts", spreads: "/src/data/spread.ts" },
+  r2: { costs: "/src/data/cost2.ts", spreads: "/src/data/spread2.ts" },
+}
+
+const ROUTE_PATTERN = /^\/routes\/([^/]+)\/(costs|spreads)\/?$/
+
+const ROUTES_FILE = "/src/data/routes.ts"
+
+export async function loadFixture(server: ViteDevServer, file: string, kind: "costs" | "spreads") {
+  const mod = await server.ssrLoadModule(file)
+  return mod[kind] as unknown[]
+}
+
+/**
+ * Serves the bundled fixtures over HTTP at `<base>/routes` and `<base>/routes/:routeKey/(costs|spreads)`
+ * so the HTTP data provider can be exercised locally with `VITE_DATA_ENDPOINT=<base>`.
+ *
+ * `?delay=<ms>` and `?status=<code>` simulate slow and failing upstreams.
+ */
+export function mockApi(base = "/mock-api"): Plugin {
+  return {
+    name: "route-chart-mock-api",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(base, async (req, res, next) => {
+        const url = new URL(req.url ?? "/", "http://localhost")
+        const match = ROUTE_PATTERN.exec(url.pathname)
+        const isList = /^\/routes\/?$/.test(url.pathname)
+        if ((!match && !isList) || req.method !== "GET") return next()
+
+        const delay = Number(url.searchParams.get("delay") ?? 0)
+        const status = Number(url.searchParams.get("status") ?? 200)
+        if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay))
+
+        res.setHeader("Content-Type", "application/json")
+
+        if (status !== 200) {
+          res.statusCode = status
+          res.end(JSON.stringify({ error: `Simulated ${status}` }))
+          return
+        }
+        if (!match) {
+          const { routes } = await server.ssrLoadModule(ROUTES_FILE)
+          res.end(JSON.stringify(routes))
+          return
+        }
+
+        const [, routeKey, kind] = match
+        const fixture = ROUTE_FIXTURES[routeKey]
+        if (!fixture) {
+          res.statusCode = 404
+          res.end(JSON.stringify({ error: `Unknown route ${routeKey}` }))
+          return
+        }
+
+        try {
+          const points = await loadFixture(server, fixture[kind as "costs" | "spreads"], kind as "costs" | "spreads")
+          res.end(JSON.stringify(points))
+        } catch (err) {
+          next(err)
+        }
+      })
+    },
+  }
+}
@@ -0,0 +1,106 @@
+import type { Plugin, ViteDevServer } from "vite"
+import type { HistoryPoint } from "../src/types.ts"
+import { ROUTE_FIXTURES, loadFixture } from "./mockApi.ts"
+
+type Kind = "costs" | "spreads"
+
+const MINUTE = 60_000
+
+const ukFormat = new Intl.DateTimeFormat("en-GB", {
+  timeZone: "Europe/London",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+})
+
+function formatUtc(ms: number) {
+  return new Date(ms).toISOString().slice(0, 16).replace("T", " ")
+}
+
+function formatUk(ms: number) {
+  const part = Object.fromEntries(ukFormat.formatToParts(ms).map((p) => [p.type, p.value]))
+  return `${part.year}-${part.month}-${part.day} ${part.hour}:${part.minute}`
+}
+
+const round = (v: number) => Math.round(v * 10_000) / 10_000
+
+/** The next snapshot of a series: a small random walk from the previous close. */
+function nextPoint(prev: HistoryPoint, time: number): HistoryPoint {
+  const open = prev.close
+  const close = round(open + (Math.random() - 0.5) * Math.max(Math.abs(open), 0.1) * 0.02)
+  const wick = Math.abs(close - open) * Math.random()
+  return {
+    ...prev,
+    snapshotId: prev.snapshotId + 1,
+    timestampUtc: formatUtc(time),
+    timestampUk: formatUk(time),
+    open,
+    close,
+    min: round(Math.min(open, close) - wick),
+    max: round(Math.max(open, close) + wick),
+    avg: round((open + close) / 2),
+  }
+}
+
+/** Latest fixture point of every tenor/source/calculation type, per route and kind. */
+async function latestPoints(server: ViteDevServer) {
+  const latest: Array<{ routeId: string; kind: Kind; points: HistoryPoint[] }> = []
+  for (const [routeId, files] of Object.entries(ROUTE_FIXTURES)) {
+    for (const kind of ["costs", "spreads"] as const) {
+      const bySeries = new Map<string, HistoryPoint>()
+      for (const p of (await loadFixture(server, files[kind], kind)) as HistoryPoint[]) {
+        const key = `${p.tenor}|${p.source}|${p.costCalculationType}`
+        const seen = bySeries.get(key)
+        if (!seen || seen.timestampUtc <= p.timestampUtc) bySeries.set(key, p)
+      }
+      latest.push({ routeId, kind, points: Array.from(bySeries.values()) })
+    }
+  }
+  return latest
+}
+
+/**
+ * Pushes synthetic snapshots as Server-Sent Events at `<base>/stream`, continuing every
+ * fixture series from its last point, so live mode can be run locally with
+ * `VITE_STREAM_ENDPOINT=<base>/stream`. Each event is one `StreamMessage` (see `src/stream.ts`).
+ *
+ * `?interval=<ms>` sets how often snapshots are sent (default 3000) and `?step=<minutes>`
+ * how far apart their timestamps are (default 60).
+ */
+export function mockStream(base = "/mock-api"): Plugin {
+  return {
+    name: "route-chart-mock-stream",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(`${base}/stream`, async (req, res, next) => {
+        if (req.method !== "GET") return next()
+        const url = new URL(req.url ?? "/", "http://localhost")
+        const interval = Math.max(100, Number(url.searchParams.get("interval") ?? 3000) || 3000)
+        const step = Math.max(1, Number(url.searchParams.get("step") ?? 60) || 60) * MINUTE
+
+        let series: Awaited<ReturnType<typeof latestPoints>>
+        try {
+          series = await latestPoints(server)
+        } catch (err) {
+          return next(err)
+        }
+        let time = Math.max(...series.flatMap((s) => s.points.map((p) => Date.parse(`${p.timestampUtc.replace(" ", "T")}Z`))))
+
+        res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" })
+        res.write(": connected\n\n")
+
+        const timer = setInterval(() => {
+          time += step
+          for (const s of series) {
+            s.points = s.points.map((p) => nextPoint(p, time))
+            res.write(`data: ${JSON.stringify({ routeId: s.routeId, kind: s.kind, points: s.points })}\n\n`)
+          }
+        }, interval)
+        req.on("close", () => clearInterval(timer))
+      })
+    },
+  }
+}
@@ -1,142 +1,454 @@
-import { useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState, type DragEvent, type MouseEvent } from "react"
 import {
   ResponsiveContainer,
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   Legend,
   Customized,
+  ReferenceArea,
 } from "recharts"
+import type { CategoricalChartState } from "recharts/types/chart/types"
 import customParseFormat from "dayjs/plugin/customParseFormat"
-import isoWeek from "dayjs/plugin/isoWeek"
 import dayjs from "dayjs"
-import { costs as costsRawR1 } from "./data/cost.ts"
-import { spreads as spreadsRawR1 } from "./data/spread.ts"
-import { costs as costsRawR2 } from "./data/cost2.ts"
-import { spreads as spreadsRawR2 } from "./data/spread2.ts"
 import CustomLegend from "./CustomLegend.tsx"
-import CustomTooltip from "./CustomTooltip.tsx"
+import RouteTooltip from "./CustomTooltip.tsx"
 import HighlightAreas from "./HighlightAreas.tsx"
-import type { CombinedRow, MetricBase, MetricKeyForRoute, RouteData, RouteKey } from "./types.ts"
-import { COLORS, METRICS } from "./constants.ts"
+import CandlestickLayer from "./CandlestickLayer.tsx"
+import ChartStatus from "./ChartStatus.tsx"
+import TenorSelector from "./TenorSelector.tsx"
+import OverviewStrip from "./OverviewStrip.tsx"
+import RangePresets from "./RangePresets.tsx"
+import MarginPanel from "./MarginPanel.tsx"
+import CrossingMarkers from "./CrossingMarkers.tsx"
+import CrossingsTable from "./CrossingsTable.tsx"
+import StatsPanel from "./StatsPanel.tsx"
+import ThresholdControl from "./ThresholdControl.tsx"
+import HighlightPairsEditor from "./HighlightPairsEditor.tsx"
+import ExportMenu from "./ExportMenu.tsx"
+import DataExportMenu from "./DataExportMenu.tsx"
+import ImportDialog, { type ImportTarget } from "./ImportDialog.tsx"
+import { parseImportFile, type ImportKind, type ParsedFile } from "./importFile.ts"
+import { validateRouteData } from "./validation.ts"
+import { closedReason, createDedupAudit, deduplicateClosedDays } from "./dedup.ts"
+import DedupPanel from "./DedupPanel.tsx"
+import DataQualityPanel from "./DataQualityPanel.tsx"
+import StaleControl from "./StaleControl.tsx"
+import TimeZoneSelect from "./TimeZoneSelect.tsx"
+import { formatInZone } from "./timeZone.ts"
+import { segmentKey, withStaleSegments } from "./stale.ts"
+import { diffLayers, withDifferentials, type RouteDiff } from "./routeDiff.ts"
+import { createDataProvider } from "./dataProvider.ts"
+import { useRouteData } from "./useRouteData.ts"
+import { buildTimeTicks, clockFor, formatTick, tickStep, type AxisMode } from "./timeScale.ts"
+import { useTimeZoom, type ViewRange } from "./useTimeZoom.ts"
+import { useRouteStream } from "./useRouteStream.ts"
+import { useLiveRows } from "./useLiveRows.ts"
+import { useDerivedRows, type DeriveRows } from "./useDerivedRows.ts"
+import { useUrlState } from "./useUrlState.ts"
+import { decodeViewState, encodeViewState, type ViewState } from "./viewState.ts"
+import SavedViewsMenu from "./SavedViewsMenu.tsx"
+import YAxisPanel from "./YAxisPanel.tsx"
+import { axisDomains, axisExtent, sharesScale, visibleOnSide, Y_AXIS_SIDES } from "./yAxes.ts"
+import type {
+  CombinedRow,
+  DedupConfig,
+  DisplayZone,
+  HighlightPairConfig,
+  HighlightThreshold,
+  HistoryPoint,
+  MetricBase,
+  RenderMode,
+  Route,
+  RouteData,
+  RouteKey,
+  SeriesKey,
+  SourcePairing,
+  StaleConfig,
+  YAxisConfig,
+} from "./types.ts"
+import { routeDisplayName } from "./routes.ts"
+import { COLORS, DEFAULT_DEDUP_CONFIG, DEFAULT_HIGHLIGHT_THRESHOLD, DEFAULT_STALE_CONFIG, METRICS, routeStyle, tenorOpacity } from "./constants.ts"
+import { combineRoutes, listTenors, metricKey, ohlcKey, seriesKey } from "./combine.ts"
+import { configuredPairs, pairCrossings, visiblePairs, visiblePairStats, withMargins, type Crossing } from "./pairs.ts"
 import "./App.css"
 
 dayjs.extend(customParseFormat)
-dayjs.extend(isoWeek)
 
+const dataProvider = createDataProvider()
+const STREAM_URL = import.meta.env.VITE_STREAM_ENDPOINT
 
-function deduplicateWeekendData<T extends Record<string, unknown>>(data: T[]) {
-  const seen = new Set<string>()
-  const excluded = new Set(["timestampUk", "timestampUtc", "counter", "snapshotId"])
+const CHART_ID = "costs-and-spreads"
+const WHEEL_ZOOM_FACTOR = 1.2
+const HOUR = 60 * 60 * 1000
+const NO_ROWS: CombinedRow[] = []
 
-  return data.filter((row) => {
-    const timeStamp = dayjs(String(row.timestampUk), "YYYY-MM-DD HH:mm", true)
-    if (!timeStamp.isValid()) return true
 
-    const dow = timeStamp.day()
-    const isWeekend = dow === 0 || dow === 6
-    if (!isWeekend) return true
-
-    const weekId = `${timeStamp.isoWeekYear()}-W${String(timeStamp.isoWeek()).padStart(2, "0")}`
-
-    const baseKey = Object.keys(row)
-      .filter((k) => !excluded.has(k))
-      .sort()
-      .map((k) => {
-        const v = row[k]
-        return `${k}=${typeof v === "number" ? String(v) : String(v).trim()}`
-      })
-      .join("|")
+/** Canonical metrics (ONE legend item each) */
+export type MetricKey = MetricBase | "highlight";
 
-    const key = `${weekId}|${baseKey}`
-    if (seen.has(key)) return false
-    seen.add(key)
-    return true
-  })
+/** A route as shown in the legend and tooltip, in load order. */
+export type RouteOption = {
+  key: RouteKey
+  route: Route
+  label: string
+  strokeDasharray?: string
+  hidden: boolean
 }
 
-function metricKey<R extends RouteKey>(base: MetricBase, routeKey: R): MetricKeyForRoute<R> {
-  return `${base}_${routeKey}` as MetricKeyForRoute<R>
+/** A plotted route/tenor combination, as shown in the tooltip columns. */
+export type SeriesOption = {
+  key: SeriesKey
+  route: Route
+  tenor: string
+  label: string
+  strokeDasharray?: string
+  strokeOpacity: number
 }
 
-function combineRouteIntoMap(route: RouteData, routeKey: RouteKey, map: Map<string, CombinedRow>) {
-  const ensure = (timestampUk: string, tenor: string) => {
-    if (!map.has(timestampUk)) map.set(timestampUk, { timestampUk, tenor })
-    return map.get(timestampUk)!
+
+export default function CostsAndSpreadsChart() {
+  // A shared link restores the view it was copied from
+  const [initialView] = useState(() => decodeViewState(window.location.search))
+  const [hidden, setHidden] = useState<Record<MetricKey, boolean>>(initialView.hidden)
+  const [pairing, setPairing] = useState<SourcePairing>(initialView.pairing)
+  const [renderModes, setRenderModes] = useState<Record<MetricBase, RenderMode>>(initialView.renderModes)
+  // `null` falls back to "first route only"
+  const [visibleRouteIds, setVisibleRouteIds] = useState<RouteKey[] | null>(initialView.visibleRoutes)
+  const [selectedTenors, setSelectedTenors] = useState<string[]>(initialView.tenors)
+  const [overlayTenors, setOverlayTenors] = useState(initialView.overlayTenors)
+  const [axisMode, setAxisMode] = useState<AxisMode>(initialView.axisMode)
+  const [displayZone, setDisplayZone] = useState<DisplayZone>(initialView.displayZone)
+  const [yAxes, setYAxes] = useState<YAxisConfig>(initialView.yAxes)
+  const [showAxes, setShowAxes] = useState(false)
+  const [showMargins, setShowMargins] = useState(false)
+  const [showCrossings, setShowCrossings] = useState(true)
+  const [showStats, setShowStats] = useState(true)
+  const [threshold, setThreshold] = useState<HighlightThreshold>(initialView.threshold)
+  // `null` compares every visible spread with its paired costs
+  const [highlightPairs, setHighlightPairs] = useState<HighlightPairConfig[] | null>(initialView.highlightPairs)
+  // Zoom window of a restored view, held until there is data to clamp it to
+  const [pendingZoom, setPendingZoom] = useState<Pick<ViewState, "range" | "trailing"> | null>(initialView)
+  const [showPairEditor, setShowPairEditor] = useState(false)
+  const [showRouteDiff, setShowRouteDiff] = useState(false)
+  const [selectedCrossing, setSelectedCrossing] = useState<string | null>(null)
+
+
+  const { state: loadState, reload } = useRouteData(dataProvider)
+  const [live, setLive] = useState(false)
+  const stream = useRouteStream(STREAM_URL, live)
+  // Routes loaded from dropped files, by id; they replace provider routes with the same id
+  const [imported, setImported] = useState<Record<RouteKey, RouteData>>({})
+  const [importFile, setImportFile] = useState<ParsedFile | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [dragOver, setDragOver] = useState(false)
+
+  const validation = useMemo(() => {
+    if (loadState.status !== "ready") return null
+    const known = new Set(loadState.routes.map((r) => r.route.id))
+    return [
+      ...loadState.routes.map((r) => imported[r.route.id] ?? r),
+      ...Object.values(imported).filter((r) => !known.has(r.route.id)),
+    ].map(validateRouteData)
+  }, [loadState, imported])
+  // Rejected points are left out; the data-quality panel lists them
+  const loaded = useMemo(() => validation?.map((v) => v.route) ?? null, [validation])
+  const issues = useMemo(() => validation?.flatMap((v) => v.issues) ?? [], [validation])
+  const [showQuality, setShowQuality] = useState(false)
+  const [dedupConfig, setDedupConfig] = useState<DedupConfig>(DEFAULT_DEDUP_CONFIG)
+  const [showDedup, setShowDedup] = useState(false)
+  const [staleConfig, setStaleConfig] = useState<StaleConfig>(DEFAULT_STALE_CONFIG)
+
+  const routeOptions: RouteOption[] = useMemo(() => {
+    const withData = (loaded ?? []).filter((r) => r.costs.length || r.spreads.length)
+    // A link naming only routes that are gone falls back to the default too
+    const shown = visibleRouteIds?.some((id) => withData.some((r) => r.route.id === id)) ? visibleRouteIds : null
+    return withData.map((r, idx) => ({
+      key: r.route.id,
+      route: r.route,
+      label: routeDisplayName(r.route),
+      ...routeStyle(idx),
+      hidden: shown ? !shown.includes(r.route.id) : idx > 0,
+    }))
+  }, [loaded, visibleRouteIds])
+
+  const visibleRoutes = useMemo(() => routeOptions.filter((r) => !r.hidden), [routeOptions])
+
+  const tenors = useMemo(() => listTenors(loaded ?? []), [loaded])
+  // Until the user picks one, show the nearest tenor
+  const activeTenors = useMemo(() => {
+    const picked = tenors.filter((t) => selectedTenors.includes(t))
+    return picked.length ? picked : tenors.slice(0, 1)
+  }, [tenors, selectedTenors])
+
+  const series: SeriesOption[] = useMemo(
+    () =>
+      visibleRoutes.flatMap((r) =>
+        activeTenors.map((tenor, tenorIdx) => ({
+          key: seriesKey(r.key, tenor),
+          route: r.route,
+          tenor,
+          label: activeTenors.length > 1 ? `${r.label} · ${tenor}` : r.label,
+          strokeDasharray: r.strokeDasharray,
+          strokeOpacity: tenorOpacity(tenorIdx),
+        }))
+      ),
+    [visibleRoutes, activeTenors]
+  )
+
+  const { routes, dedupAudit } = useMemo(() => {
+    const visibleKeys = new Set(visibleRoutes.map((r) => r.key))
+    const isActiveTenor = (p: { tenor: string }) => activeTenors.includes(p.tenor)
+    const dedupAudit = createDedupAudit()
+    const routes: RouteData[] = (loaded ?? [])
+      .filter((r) => visibleKeys.has(r.route.id))
+      .map((r) => ({
+        route: r.route,
+        costs: deduplicateClosedDays(r.costs.filter(isActiveTenor), dedupConfig, dedupAudit),
+        spreads: deduplicateClosedDays(r.spreads.filter(isActiveTenor), dedupConfig, dedupAudit),
+      }))
+    return { routes, dedupAudit }
+  }, [loaded, visibleRoutes, activeTenors, dedupConfig])
+
+  const autoPairs = useMemo(
+    () => visiblePairs(series.map((s) => s.key), hidden, pairing),
+    [series, hidden, pairing]
+  )
+  const pairs = useMemo(
+    () => (highlightPairs ? configuredPairs(highlightPairs, series.map((s) => s.key), hidden) : autoPairs),
+    [highlightPairs, series, hidden, autoPairs]
+  )
+  // A spread and cost on different scales cannot be shaded against each other
+  const shadedPairs = useMemo(
+    () => pairs.filter((p) => sharesScale(yAxes, p.spread, p.cost)).map((p) => ({ ...p, yAxisId: yAxes.sides[p.spread] })),
+    [pairs, yAxes]
+  )
+
+  // First visible route minus the second, tenor by tenor
+  const routeDiffs: RouteDiff[] = useMemo(() => {
+    if (!showRouteDiff || visibleRoutes.length < 2) return []
+    const [first, second] = visibleRoutes
+    return activeTenors.map((tenor) => ({
+      id: `${seriesKey(first.key, tenor)}~${seriesKey(second.key, tenor)}`,
+      series: seriesKey(first.key, tenor),
+      other: seriesKey(second.key, tenor),
+      label: `Δ ${first.label} − ${second.label}${activeTenors.length > 1 ? ` · ${tenor}` : ""}`,
+    }))
+  }, [showRouteDiff, visibleRoutes, activeTenors])
+
+  const clock = useMemo(() => clockFor(axisMode), [axisMode])
+  const combined = useMemo(
+    () => combineRoutes(routes).map((row) => ({ ...row, x: clock.toAxis(row.time) })),
+    [routes, clock]
+  )
+  // Streamed points skip closed-day deduplication until the next full load
+  const liveRows = useLiveRows(
+    combined,
+    stream,
+    (routeId, point) => routes.some((r) => r.route.id === routeId) && activeTenors.includes(point.tenor),
+    clock.toAxis
+  )
+
+  const seriesKeys = useMemo(() => series.map((s) => s.key), [series])
+  // Streamed points only re-derive the tail of the rows
+  const deriveChart = useCallback<DeriveRows>(
+    (rows, split) => {
+      const { rows: segmented, staleKeys } = withStaleSegments(rows, seriesKeys, staleConfig, split)
+      return { rows: withDifferentials(withMargins(segmented, pairs), routeDiffs), staleKeys }
+    },
+    [seriesKeys, staleConfig, pairs, routeDiffs]
+  )
+  const { rows: data, staleKeys } = useDerivedRows(
+    liveRows,
+    seriesKeys,
+    staleConfig.mode === "off" ? 1 : staleConfig.minRun,
+    deriveChart
+  )
+
+  // Collapsing plateaus only thins the plot; exports keep every snapshot
+  const deriveExport = useCallback<DeriveRows>(
+    (rows) => ({ rows: withDifferentials(withMargins(rows, pairs), routeDiffs), staleKeys: new Set() }),
+    [pairs, routeDiffs]
+  )
+  const collapsed = staleConfig.mode === "collapse"
+  const exportRows = useDerivedRows(collapsed ? liveRows : NO_ROWS, seriesKeys, 1, deriveExport).rows
+  const exportData = collapsed ? exportRows : data
+
+  const crossings = useMemo(() => pairCrossings(data, pairs, threshold), [data, pairs, threshold])
+
+  const xDomain: ViewRange = useMemo(
+    () => (data.length ? [data[0].x, data[data.length - 1].x] : [0, 0]),
+    [data]
+  )
+  const zoom = useTimeZoom(xDomain)
+  const [activePreset, setActivePreset] = useState<number | null>(null)
+
+  if (pendingZoom && loadState.status === "ready") {
+    setPendingZoom(null)
+    const { range, trailing } = pendingZoom
+    if (data.length && trailing) {
+      const last = data[data.length - 1]
+      setActivePreset(trailing)
+      zoom.setRange([clock.toAxis(last.time - trailing), last.x])
+    } else if (data.length && range) {
+      zoom.setRange([clock.toAxis(range[0]), clock.toAxis(range[1])])
+    }
   }
 
-  for (const c of route.costs) {
-    const row = ensure(c.timestampUk, c.tenor)
-    const t = c.costCalculationType?.toLowerCase();
-    if (t === "all") row[metricKey("cost_all", routeKey)] = c.avg
-    if (t === "fixed") row[metricKey("cost_fixed", routeKey)] = c.avg
-    if (t === "variable") row[metricKey("cost_variable", routeKey)] = c.avg
+  // A window reaching the newest data is kept as "the last N hours", so it still means that once newer data arrives
+  const trailing =
+    zoom.range && zoom.range[1] >= xDomain[1]
+      ? activePreset || Math.max(1, Math.round((clock.fromAxis(zoom.range[1]) - clock.fromAxis(zoom.range[0])) / HOUR)) * HOUR
+      : null
+  const currentView: ViewState = {
+    hidden,
+    visibleRoutes: visibleRouteIds,
+    tenors: selectedTenors,
+    overlayTenors,
+    axisMode,
+    range: zoom.range && !trailing ? [clock.fromAxis(zoom.range[0]), clock.fromAxis(zoom.range[1])] : null,
+    trailing,
+    renderModes,
+    displayZone,
+    yAxes,
+    threshold,
+    pairing,
+    highlightPairs,
   }
+  // Held back until the data is in, so a linked zoom window is not dropped before it can apply
+  const viewQuery = loadState.status === "ready" && !pendingZoom ? encodeViewState(currentView) : null
 
-  for (const s of route.spreads) {
-    const row = ensure(s.timestampUk, s.tenor)
-    if (s.source?.toLowerCase() === "acp") row[metricKey("spread_acp", routeKey)] = s.avg
-    if (s.source?.toLowerCase() === "trayport") row[metricKey("spread_trayport", routeKey)] = s.avg
+  const applyView = (view: ViewState) => {
+    setHidden(view.hidden)
+    setVisibleRouteIds(view.visibleRoutes)
+    setSelectedTenors(view.tenors)
+    setOverlayTenors(view.overlayTenors)
+    setAxisMode(view.axisMode)
+    setRenderModes(view.renderModes)
+    setDisplayZone(view.displayZone)
+    setYAxes(view.yAxes)
+    setThreshold(view.threshold)
+    setPairing(view.pairing)
+    setHighlightPairs(view.highlightPairs)
+    setActivePreset(null)
+    setPendingZoom(view)
+    zoom.setRange(null)
   }
-}
 
-function combineTwoRoutes(route1: RouteData, route2?: RouteData | null): CombinedRow[] {
-  const map = new Map<string, CombinedRow>()
-  combineRouteIntoMap(route1, "r1", map)
-  if (route2) combineRouteIntoMap(route2, "r2", map)
+  useUrlState(viewQuery, (search) => applyView(decodeViewState(search)))
+  const [drag, setDrag] = useState<{ mode: "zoom" | "pan"; from: number; to: number; view: ViewRange } | null>(null)
+  const hoverX = useRef<number | null>(null)
+  const [chartEl, setChartEl] = useState<HTMLDivElement | null>(null)
 
-  return Array.from(map.values()).sort(
-    (a, b) => dayjs(a.timestampUk).valueOf() - dayjs(b.timestampUk).valueOf()
+  // Rows inside the window plus one neighbour on each side, so lines and strips run to the edges
+  const visibleData = useMemo(() => {
+    if (!zoom.range) return data
+    const [start, end] = zoom.range
+    const first = data.findIndex((row) => row.x >= start)
+    if (first === -1) return data.slice(-1)
+    let last = first
+    while (last + 1 < data.length && data[last + 1].x <= end) last++
+    return data.slice(Math.max(0, first - 1), last + 2)
+  }, [data, zoom.range])
+
+  const axisMetrics = useMemo(
+    () => ({ left: visibleOnSide(yAxes, "left", hidden), right: visibleOnSide(yAxes, "right", hidden) }),
+    [yAxes, hidden]
   )
-}
+  // The left axis stays as the frame of an empty chart
+  const axisShown = { left: axisMetrics.left.length > 0 || axisMetrics.right.length === 0, right: axisMetrics.right.length > 0 }
+  const yDomains = useMemo(() => {
+    const keys = series.map((s) => s.key)
+    return axisDomains(yAxes, {
+      left: axisExtent(visibleData, keys, axisMetrics.left, renderModes),
+      right: axisExtent(visibleData, keys, axisMetrics.right, renderModes),
+    })
+  }, [yAxes, visibleData, series, axisMetrics, renderModes])
 
-/** Canonical metrics (ONE legend item each) */
-export type MetricKey = "spread_acp" | "spread_trayport" | "cost_all" | "cost_fixed" | "cost_variable" | "highlight" | "second_route";
+  const stats = useMemo(
+    () => visiblePairStats(data, pairs, zoom.view, threshold),
+    [data, pairs, zoom.view, threshold]
+  )
 
+  const xTicks = useMemo(() => buildTimeTicks(zoom.view, clock, displayZone), [zoom.view, clock, displayZone])
+  const xTickStep = tickStep(zoom.view, clock)
+  const formatX = (x: number) => formatTick(clock.fromAxis(x), xTickStep, displayZone)
+  const formatTime = (x: number, format: string) => formatInZone(clock.fromAxis(x), displayZone, format)
 
-function toR1(metric: MetricKey) {
-  return `${metric}_r1`
-}
-function toR2(metric: MetricKey) {
-  return `${metric}_r2`
-}
+  const selectRange = (range: ViewRange | null) => {
+    setActivePreset(null)
+    zoom.setRange(range)
+  }
 
+  const selectPreset = (duration: number | null) => {
+    setActivePreset(duration)
+    if (duration === null || data.length === 0) return zoom.setRange(null)
+    const last = data[data.length - 1]
+    zoom.setRange([clock.toAxis(last.time - duration), last.x])
+  }
 
-export default function CostsAndSpreadsChart() {
-  const [hidden, setHidden] = useState<Record<MetricKey, boolean>>({
-    spread_acp: false,
-    spread_trayport: true,
-    cost_all: false,
-    cost_fixed: true,
-    cost_variable: true,
-    highlight: false,
-    second_route: true,
+  const focusCrossing = (crossing: Crossing) => {
+    setSelectedCrossing(crossing.id)
+    const span = zoom.range ? zoom.view[1] - zoom.view[0] : (xDomain[1] - xDomain[0]) / 5
+    selectRange([crossing.x - span / 2, crossing.x + span / 2])
+  }
+
+  const wheelHandler = useRef<(e: WheelEvent) => void>(() => {})
+  useEffect(() => {
+    wheelHandler.current = (e: WheelEvent) => {
+      e.preventDefault()
+      const [start, end] = zoom.view
+      setActivePreset(null)
+      if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        const delta = e.shiftKey ? e.deltaY : e.deltaX
+        zoom.panBy(Math.sign(delta) * (end - start) * 0.1)
+        return
+      }
+      const anchor = hoverX.current ?? (start + end) / 2
+      zoom.zoomAt(anchor, e.deltaY < 0 ? 1 / WHEEL_ZOOM_FACTOR : WHEEL_ZOOM_FACTOR)
+    }
   })
 
+  // React registers wheel listeners as passive, which would not let us stop the page scrolling
+  useEffect(() => {
+    if (!chartEl) return
+    const onWheel = (e: WheelEvent) => wheelHandler.current(e)
+    chartEl.addEventListener("wheel", onWheel, { passive: false })
+    return () => chartEl.removeEventListener("wheel", onWheel)
+  }, [chartEl])
 
-  const route1: RouteData = useMemo(
-    () => ({
-      costs: deduplicateWeekendData(costsRawR1),
-      spreads: deduplicateWeekendData(spreadsRawR1),
-    }),
-    []
-  )
+  const activeX = (state: CategoricalChartState) =>
+    typeof state?.activeLabel === "number" ? state.activeLabel : Number(state?.activeLabel)
 
-  const route2: RouteData | null = useMemo(() => {
-    if ((!costsRawR2?.length && !spreadsRawR2?.length) || hidden.second_route) {
-      return null;
+  const handleMouseDown = (state: CategoricalChartState, e: MouseEvent) => {
+    const x = activeX(state)
+    if (!Number.isFinite(x)) return
+    setDrag({ mode: e.shiftKey ? "pan" : "zoom", from: x, to: x, view: zoom.view })
+  }
+
+  const handleMouseMove = (state: CategoricalChartState) => {
+    const x = activeX(state)
+    hoverX.current = Number.isFinite(x) ? x : null
+    if (!drag || !Number.isFinite(x)) return
+    if (drag.mode === "pan") {
+      const delta = drag.from - x
+      setActivePreset(null)
+      zoom.setRange([drag.view[0] + delta, drag.view[1] + delta])
+      return
     }
-    return {
-      costs: deduplicateWeekendData(costsRawR2),
-      spreads: deduplicateWeekendData(spreadsRawR2),
-    };
-  }, [hidden])
+    setDrag({ ...drag, to: x })
+  }
 
-  const hasRoute2 = Boolean(route2)
-  const data = useMemo(() => combineTwoRoutes(route1, route2), [route1, route2])
+  const handleMouseUp = () => {
+    if (drag?.mode === "zoom" && drag.from !== drag.to) {
+      selectRange([Math.min(drag.from, drag.to), Math.max(drag.from, drag.to)])
+    }
+    setDrag(null)
+  }
 
 
   const toggleMetric = (metric: string) => {
@@ -144,71 +456,426 @@ export default function CostsAndSpreadsChart() {
     setHidden((prev) => ({ ...prev, [m]: !prev[m] }))
   }
 
+  const changeRenderMode = (metric: string, mode: RenderMode) => {
+    setRenderModes((prev) => ({ ...prev, [metric]: mode }))
+  }
+
+  const toggleRoute = (key: RouteKey) => {
+    const option = routeOptions.find((r) => r.key === key)
+    if (!option) return
+    // Keep at least one route on the chart
+    if (!option.hidden && visibleRoutes.length === 1) return
+    const shown = visibleRoutes.map((r) => r.key)
+    setVisibleRouteIds(option.hidden ? [...shown, key] : shown.filter((k) => k !== key))
+  }
+
+  const handleDrop = async (e: DragEvent) => {
+    e.preventDefault()
+    setDragOver(false)
+    const file = e.dataTransfer.files[0]
+    if (!file) return
+    try {
+      setImportError(null)
+      setImportFile(await parseImportFile(file))
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const loadImport = (target: ImportTarget, kind: ImportKind, points: HistoryPoint[]) => {
+    if (target.mode === "new") {
+      const empty = { route: target.route, costs: [], spreads: [] }
+      setImported((prev) => ({ ...prev, [target.route.id]: { ...empty, [kind]: points } }))
+      setVisibleRouteIds([...visibleRoutes.map((r) => r.key), target.route.id])
+    } else {
+      const existing = loaded?.find((r) => r.route.id === target.routeId)
+      if (existing) setImported((prev) => ({ ...prev, [target.routeId]: { ...existing, [kind]: points } }))
+    }
+    setImportFile(null)
+  }
+
+  if (loadState.status !== "ready" || routeOptions.length === 0) {
+    return (
+      <div style={{ width: "100%", height: 600 }}>
+        {loadState.status === "loading" ? <ChartStatus kind="loading" /> : null}
+        {loadState.status === "error" ? (
+          <ChartStatus kind="error" message={loadState.error.message} onRetry={reload} />
+        ) : null}
+        {loadState.status === "ready" ? <ChartStatus kind="empty" onRetry={reload} /> : null}
+      </div>
+    )
+  }
+
   return (
-    <div style={{ width: "100%", height: 600 }}>
-      <ResponsiveContainer>
-
-        <LineChart data={data} margin={{ top: 20, right: 20, left: 20, bottom: 5 }}>
-          <Customized component={
-            <HighlightAreas
-              data={data}
-              enabled={!hidden.highlight} hidden={hidden} hasRoute2={hasRoute2 && !hidden.second_route} />
-          } />
-          <CartesianGrid stroke="#ccc" strokeOpacity={0.1} strokeWidth={1} strokeDasharray="5 5" />
-          <XAxis dataKey="timestampUk" />
-          <YAxis />
-          <Tooltip
-            animationEasing="linear"
-            animationDuration={100}
-            cursor={{ stroke: "#111", strokeOpacity: 0.15 }}
-            content={(props) =>
-              <CustomTooltip {...props} hasRoute2={hasRoute2} hiddenKeys={hidden} />
-            }
+    <div
+      style={{ width: "100%", position: "relative" }}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return
+        e.preventDefault()
+        setDragOver(true)
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragOver(false)
+      }}
+      onDrop={handleDrop}
+    >
+      {dragOver ? (
+        <div
+          style={{
+            position: "absolute",
+            inset: 0,
+            zIndex: 15,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            border: "2px dashed #bbb",
+            borderRadius: 6,
+            background: "rgba(0,0,0,0.5)",
+            color: "#bbb",
+            fontSize: 16,
+            pointerEvents: "none",
+          }}
+        >
+          Drop a CSV or JSON file of costs or spreads
+        </div>
+      ) : null}
+      {importFile ? (
+        <ImportDialog
+          file={importFile}
+          routes={(loaded ?? []).map((r) => r.route)}
+          onCancel={() => setImportFile(null)}
+          onLoad={loadImport}
+        />
+      ) : null}
+      {live && stream.error ? (
+        <div role="alert" style={{ color: "#ef4444", fontSize: 12, paddingLeft: 75, paddingBottom: 8 }}>
+          Live updates: {stream.error.message}
+        </div>
+      ) : null}
+      {importError ? (
+        <div role="alert" style={{ color: "#ef4444", fontSize: 12, paddingLeft: 75, paddingBottom: 8 }}>
+          {importError}
+        </div>
+      ) : null}
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 16, paddingLeft: 75, paddingBottom: 8 }}>
+        <TenorSelector
+          tenors={tenors}
+          selected={activeTenors}
+          overlay={overlayTenors}
+          onChange={setSelectedTenors}
+          onOverlayChange={setOverlayTenors}
+        />
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}>
+          <input
+            type="checkbox"
+            checked={axisMode === "trading"}
+            onChange={(e) => {
+              zoom.setRange(null)
+              setAxisMode(e.target.checked ? "trading" : "calendar")
+            }}
           />
-          <Legend
-            content={(props) => (
-              <CustomLegend
-                payload={props.payload}
-                hiddenKeys={hidden as unknown as Record<string, boolean>}
-                onToggle={toggleMetric}
-              />
-            )}
+          Trading hours only
+        </label>
+        <TimeZoneSelect zone={displayZone} onChange={setDisplayZone} />
+        <label
+          style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}
+          title={
+            STREAM_URL
+              ? `Append snapshots pushed by ${STREAM_URL}${stream.rejected ? `; ${stream.rejected} invalid points dropped` : ""}${stream.error ? `\n${stream.error.message}` : ""}`
+              : "Set VITE_STREAM_ENDPOINT to a WebSocket or Server-Sent Events URL to enable"
+          }
+        >
+          <input type="checkbox" checked={live} disabled={!STREAM_URL} onChange={(e) => setLive(e.target.checked)} />
+          Live
+          {live ? (
+            <span style={{ color: stream.error ? "#ef4444" : stream.status === "open" ? "#22c55e" : "#888" }}>●</span>
+          ) : null}
+        </label>
+        <RangePresets active={zoom.range ? (activePreset ?? undefined) : null} onSelect={selectPreset} />
+        <ThresholdControl threshold={threshold} onChange={setThreshold} />
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}>
+          <input type="checkbox" checked={showPairEditor} onChange={(e) => setShowPairEditor(e.target.checked)} />
+          Highlight pairs{highlightPairs ? ` (${highlightPairs.length})` : ""}
+        </label>
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}>
+          <input type="checkbox" checked={showAxes} onChange={(e) => setShowAxes(e.target.checked)} />
+          Y axes
+        </label>
+        <label
+          style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}
+          title="First visible route minus the second, per metric; purple where the first route beats the second"
+        >
+          <input
+            type="checkbox"
+            checked={showRouteDiff}
+            disabled={visibleRoutes.length < 2}
+            onChange={(e) => setShowRouteDiff(e.target.checked)}
           />
-          {METRICS.map((m) => (
-            <Line
-              key={`${m.key}-r1`}
-              type="linear"
-              dataKey={toR1(m.key)}
-              name={m.key} // Canonical key for legend toggle
-              stroke={COLORS[m.colorKey]}
-              strokeWidth={1.5}
-              dot={false}
-              connectNulls
-              hide={hidden[m.key]}
-              isAnimationActive={false}
+          Route differential
+        </label>
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}>
+          <input type="checkbox" checked={showMargins} onChange={(e) => setShowMargins(e.target.checked)} />
+          Margin panel
+        </label>
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}>
+          <input type="checkbox" checked={showCrossings} onChange={(e) => setShowCrossings(e.target.checked)} />
+          Crossings
+        </label>
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}>
+          <input type="checkbox" checked={showStats} onChange={(e) => setShowStats(e.target.checked)} />
+          Stats
+        </label>
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}>
+          <input type="checkbox" checked={showQuality} onChange={(e) => setShowQuality(e.target.checked)} />
+          Data quality
+          {issues.some((i) => i.severity === "error") ? <span style={{ color: "#ef4444" }}>●</span> : null}
+        </label>
+        <label style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}>
+          <input type="checkbox" checked={showDedup} onChange={(e) => setShowDedup(e.target.checked)} />
+          Deduplication
+        </label>
+        <StaleControl config={staleConfig} onChange={setStaleConfig} found={staleKeys.size} />
+        <SavedViewsMenu currentQuery={viewQuery ?? ""} onSelect={(view) => applyView(decodeViewState(view.query))} />
+        <ExportMenu
+          getChart={() => chartEl?.querySelector<SVGSVGElement>(".recharts-wrapper > svg.recharts-surface") ?? null}
+          title={`${visibleRoutes.map((r) => r.label).join(" / ")} · ${activeTenors.join(", ")}`}
+          subtitle={`${formatTime(zoom.view[0], "DD MMM YYYY HH:mm")} – ${formatTime(zoom.view[1], "DD MMM YYYY HH:mm z")}${axisMode === "trading" ? " (trading hours)" : ""}`}
+          legend={[
+            ...METRICS.filter((m) => !hidden[m.key]).map((m) => ({ label: m.label, color: COLORS[m.colorKey] })),
+            ...(series.length > 1
+              ? series.map((s) => ({ label: s.label, color: "#bbb", strokeDasharray: s.strokeDasharray }))
+              : []),
+          ]}
+          filename={`costs-and-spreads-${formatTime(zoom.view[1], "YYYYMMDD-HHmm")}`}
+        />
+        <DataExportMenu
+          getRows={() => exportData.filter((row) => row.x >= zoom.view[0] && row.x <= zoom.view[1])}
+          series={series}
+          hidden={hidden}
+          pairs={pairs}
+          zone={displayZone}
+          collapsed={dedupAudit.collapsed}
+          closedReason={(timestampUk) => closedReason(dayjs(timestampUk, "YYYY-MM-DD HH:mm"), dedupConfig)}
+          filename={`costs-and-spreads-${formatTime(zoom.view[1], "YYYYMMDD-HHmm")}`}
+        />
+      </div>
+      {showPairEditor ? (
+        <HighlightPairsEditor
+          configs={highlightPairs}
+          series={series}
+          autoPairs={autoPairs}
+          onChange={setHighlightPairs}
+        />
+      ) : null}
+      {showAxes ? (
+        <YAxisPanel config={yAxes} onChange={setYAxes} unshadedPairs={pairs.length - shadedPairs.length} />
+      ) : null}
+      <div style={{ display: "flex", gap: 16 }}>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div ref={setChartEl} style={{ width: "100%", height: 600, userSelect: "none" }}>
+            <ResponsiveContainer>
+
+              <ComposedChart
+                id={CHART_ID}
+                syncId={CHART_ID}
+                syncMethod="value"
+                data={visibleData}
+                margin={{ top: 20, right: 20, left: 20, bottom: 5 }}
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={() => {
+                  hoverX.current = null
+                  setDrag(null)
+                }}
+              >
+                <Customized component={
+                  <HighlightAreas
+                    data={visibleData}
+                    enabled={!hidden.highlight} pairs={shadedPairs} threshold={threshold} />
+                } />
+                {routeDiffs.length ? (
+                  <Customized component={
+                    <HighlightAreas data={visibleData} enabled pairs={diffLayers(routeDiffs, hidden).map((l) => ({ ...l, yAxisId: yAxes.sides[l.base] }))} threshold={DEFAULT_HIGHLIGHT_THRESHOLD} />
+                  } />
+                ) : null}
+                <Customized component={
+                  <CandlestickLayer data={visibleData} series={series} hidden={hidden} renderModes={renderModes} yAxisIds={yAxes.sides} />
+                } />
+                {showCrossings ? (
+                  <Customized component={<CrossingMarkers crossings={crossings} selectedId={selectedCrossing} yAxisIds={yAxes.sides} />} />
+                ) : null}
+                <CartesianGrid stroke="#ccc" strokeOpacity={0.1} strokeWidth={1} strokeDasharray="5 5" />
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  scale="linear"
+                  domain={zoom.view}
+                  ticks={xTicks}
+                  tickFormatter={formatX}
+                  allowDataOverflow
+                />
+                {Y_AXIS_SIDES.map((side) => (
+                  <YAxis
+                    key={side}
+                    yAxisId={side}
+                    orientation={side}
+                    domain={yDomains[side]}
+                    allowDataOverflow={yDomains[side].some((bound) => typeof bound === "number")}
+                    hide={!axisShown[side]}
+                  />
+                ))}
+                <Tooltip
+                  animationEasing="linear"
+                  animationDuration={100}
+                  cursor={{ stroke: "#111", strokeOpacity: 0.15 }}
+                  content={(props) =>
+                    <RouteTooltip
+                      {...props}
+                      series={series}
+                      hiddenKeys={hidden}
+                      pairing={pairing}
+                      renderModes={renderModes}
+                      pairs={pairs}
+                      threshold={threshold}
+                      routeDiffs={routeDiffs}
+                      timeZone={displayZone}
+                    />
+                  }
+                />
+                <Legend
+                  content={(props) => (
+                    <CustomLegend
+                      payload={props.payload}
+                      hiddenKeys={hidden as unknown as Record<string, boolean>}
+                      onToggle={toggleMetric}
+                      routes={routeOptions}
+                      onToggleRoute={toggleRoute}
+                      pairing={pairing}
+                      onPairingChange={setPairing}
+                      renderModes={renderModes}
+                      onRenderModeChange={changeRenderMode}
+                    />
+                  )}
+                />
+                {series.flatMap((sr) =>
+                  METRICS.filter((m) => renderModes[m.key] === "band").map((m) => (
+                    <Area
+                      key={`${m.key}-${sr.key}-band`}
+                      type="linear"
+                      dataKey={(row: CombinedRow) => {
+                        const lo = row[ohlcKey(m.key, sr.key, "min")]
+                        const hi = row[ohlcKey(m.key, sr.key, "max")]
+                        return lo !== undefined && hi !== undefined ? [lo, hi] : null
+                      }}
+                      name={m.key}
+                      stroke="none"
+                      fill={COLORS[m.colorKey]}
+                      fillOpacity={0.15 * sr.strokeOpacity}
+                      connectNulls
+                      yAxisId={yAxes.sides[m.key]}
+                      hide={hidden[m.key]}
+                      isAnimationActive={false}
+                      legendType="none"
+                      activeDot={false}
+                    />
+                  ))
+                )}
+                {series.flatMap((sr, seriesIdx) =>
+                  METRICS.flatMap((m) => {
+                    const key = metricKey(m.key, sr.key)
+                    // Candles replace the avg line; it stays mounted so the legend keeps its entry
+                    const hide = hidden[m.key] || renderModes[m.key] === "candle" || renderModes[m.key] === "ohlc"
+                    // With plateaus the line is split: the fresh part leaves gaps the dotted stale part fills
+                    const stale = staleKeys.has(key)
+                    return [
+                      <Line
+                        key={`${m.key}-${sr.key}`}
+                        type="linear"
+                        dataKey={stale ? segmentKey("fresh", key) : key}
+                        name={m.key} // Canonical key for legend toggle
+                        stroke={COLORS[m.colorKey]}
+                        strokeWidth={1.5}
+                        strokeDasharray={sr.strokeDasharray}
+                        strokeOpacity={sr.strokeOpacity}
+                        dot={false}
+                        connectNulls={!stale}
+                        yAxisId={yAxes.sides[m.key]}
+                        hide={hide}
+                        isAnimationActive={false}
+                        legendType={seriesIdx === 0 ? undefined : "none"}
+                      />,
+                      stale ? (
+                        <Line
+                          key={`${m.key}-${sr.key}-stale`}
+                          type="linear"
+                          dataKey={segmentKey("stale", key)}
+                          name={m.key}
+                          stroke={COLORS[m.colorKey]}
+                          strokeWidth={1.5}
+                          strokeDasharray="1 4"
+                          strokeOpacity={0.4 * sr.strokeOpacity}
+                          dot={false}
+                          activeDot={false}
+                          yAxisId={yAxes.sides[m.key]}
+                          hide={hide}
+                          isAnimationActive={false}
+                          legendType="none"
+                        />
+                      ) : null,
+                    ]
+                  })
+                )}
+                {drag?.mode === "zoom" && drag.from !== drag.to ? (
+                  <ReferenceArea yAxisId="left" x1={drag.from} x2={drag.to} fill="#bbb" fillOpacity={0.1} stroke="#bbb" strokeOpacity={0.3} />
+                ) : null}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          {showMargins ? (
+            <MarginPanel
+              data={visibleData}
+              pairs={pairs}
+              series={series}
+              threshold={threshold}
+              domain={zoom.view}
+              ticks={xTicks}
+              formatX={formatX}
+              syncId={CHART_ID}
             />
-          ))}
-
-          {hasRoute2
-            ? METRICS.map((m) => (
-              <Line
-                key={`${m.key}-r2`}
-                type="linear"
-                dataKey={toR2(m.key)}
-                name={m.key}
-                stroke={COLORS[m.colorKey]}
-                strokeWidth={1.5}
-                strokeDasharray="6 4"
-                dot={false}
-                connectNulls
-                hide={hidden[m.key]}
-                isAnimationActive={false}
-                legendType="none"
+          ) : null}
+          <OverviewStrip
+            data={data}
+            series={series.map((s) => s.key)}
+            hidden={hidden}
+            range={zoom.range}
+            onChange={selectRange}
+            formatX={formatX}
+          />
+          {showDedup ? <DedupPanel config={dedupConfig} onChange={setDedupConfig} audit={dedupAudit} /> : null}
+          {showQuality ? <DataQualityPanel issues={issues} routes={(loaded ?? []).map((r) => r.route)} /> : null}
+        </div>
+        {showStats || showCrossings ? (
+          <aside style={{ width: 420, flexShrink: 0 }}>
+            {showStats ? (
+              <StatsPanel
+                stats={stats}
+                series={series}
+                hoursUnit={axisMode === "trading" ? "session hours" : "hours"}
+              />
+            ) : null}
+            {showCrossings ? (
+              <CrossingsTable
+                crossings={crossings}
+                series={series}
+                selectedId={selectedCrossing}
+                formatTime={(x) => formatTime(x, "YYYY-MM-DD HH:mm")}
+                onSelect={focusCrossing}
               />
-            ))
-            : null}
-        </LineChart>
-      </ResponsiveContainer>
+            ) : null}
+          </aside>
+        ) : null}
+      </div>
     </div>
   )
 }
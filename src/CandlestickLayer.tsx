@@ -0,0 +1,117 @@
+import { metricKey, ohlcKey } from "./combine"
+import { COLORS, METRICS } from "./constants"
+import { isStale } from "./stale"
+import type { CombinedRow, MetricBase, RenderMode, SeriesKey } from "./types"
+
+type AxisLike = {
+    scale?: (value: unknown) => number
+}
+
+type AxisMap = Record<string, AxisLike>
+
+type CandlestickLayerProps = {
+    data: CombinedRow[]
+    series: Array<{ key: SeriesKey; strokeOpacity: number }>
+    hidden: Record<string, boolean>
+    renderModes: Record<MetricBase, RenderMode>
+    /** Y axis each metric is plotted against; the first axis when omitted. */
+    yAxisIds?: Partial<Record<MetricBase, string>>
+}
+
+// Re-published snapshots are faded like the dotted stale segments of the lines
+const STALE_OPACITY = 0.35
+
+type Candle = { x: number; open: number; close: number; high: number; low: number; stale: boolean }
+
+export default function CandlestickLayer(props: CandlestickLayerProps & Record<string, unknown>) {
+    const { data, series, hidden, renderModes, yAxisIds = {} } = props
+
+    // Injected by Recharts Customized
+    const { xAxisMap, yAxisMap, id: chartId } = props as unknown as {
+        xAxisMap?: AxisMap
+        yAxisMap?: AxisMap
+        id?: string
+    }
+    const sx = xAxisMap ? Object.values(xAxisMap)[0]?.scale : undefined
+    const scaleFor = (base: MetricBase) => {
+        const id = yAxisIds[base]
+        return yAxisMap ? ((id ? yAxisMap[id] : undefined) ?? Object.values(yAxisMap)[0])?.scale : undefined
+    }
+    if (!sx || !yAxisMap) return null
+
+    const metrics = METRICS.filter((m) => {
+        const mode = renderModes[m.key]
+        return !hidden[m.key] && (mode === "candle" || mode === "ohlc")
+    })
+    if (metrics.length === 0) return null
+
+    const xs = data.map((row) => sx(row.x)).filter(Number.isFinite)
+    let minGap = Number.POSITIVE_INFINITY
+    for (let i = 1; i < xs.length; i++) {
+        const gap = xs[i] - xs[i - 1]
+        if (gap > 0) minGap = Math.min(minGap, gap)
+    }
+    const width = Number.isFinite(minGap) ? Math.max(1, Math.min(10, minGap * 0.6)) : 6
+
+    const candlesFor = (base: MetricBase, sr: SeriesKey) => {
+        const out: Candle[] = []
+        const sy = scaleFor(base)
+        if (!sy) return out
+        for (const row of data) {
+            const open = row[ohlcKey(base, sr, "open")]
+            const close = row[ohlcKey(base, sr, "close")]
+            const low = row[ohlcKey(base, sr, "min")]
+            const high = row[ohlcKey(base, sr, "max")]
+            if (open === undefined || close === undefined || low === undefined || high === undefined) continue
+
+            const candle = { x: sx(row.x), open: sy(open), close: sy(close), high: sy(high), low: sy(low) }
+            if (Object.values(candle).every(Number.isFinite)) out.push({ ...candle, stale: isStale(row, metricKey(base, sr)) })
+        }
+        return out
+    }
+
+    return (
+        <g pointerEvents="none" clipPath={chartId ? `url(#${chartId}-clip)` : undefined}>
+            {series.map((sr) =>
+                metrics.map((m) => {
+                    const color = COLORS[m.colorKey]
+                    const mode = renderModes[m.key]
+
+                    return (
+                        <g key={`${sr.key}-${m.key}`} stroke={color} strokeOpacity={sr.strokeOpacity} strokeWidth={1}>
+                            {candlesFor(m.key, sr.key).map((c, idx) => {
+                                // SVG y grows downwards, so a rising candle has close above open
+                                const rising = c.close <= c.open
+
+                                if (mode === "ohlc") {
+                                    return (
+                                        <g key={idx} opacity={c.stale ? STALE_OPACITY : undefined}>
+                                            <line x1={c.x} x2={c.x} y1={c.high} y2={c.low} />
+                                            <line x1={c.x - width / 2} x2={c.x} y1={c.open} y2={c.open} />
+                                            <line x1={c.x} x2={c.x + width / 2} y1={c.close} y2={c.close} />
+                                        </g>
+                                    )
+                                }
+
+                                const top = Math.min(c.open, c.close)
+                                return (
+                                    <g key={idx} opacity={c.stale ? STALE_OPACITY : undefined}>
+                                        <line x1={c.x} x2={c.x} y1={c.high} y2={c.low} />
+                                        <rect
+                                            x={c.x - width / 2}
+                                            y={top}
+                                            width={width}
+                                            height={Math.max(1, Math.abs(c.close - c.open))}
+                                            fill={rising ? "none" : color}
+                                            fillOpacity={sr.strokeOpacity}
+                                        />
+                                    </g>
+                                )
+                            })}
+                        </g>
+                    )
+                })
+            )}
+        </g>
+    )
+}
@@ -0,0 +1,48 @@
+type ChartStatusProps = {
+    kind: "loading" | "empty" | "error"
+    message?: string
+    onRetry?: () => void
+}
+
+const TITLES: Record<ChartStatusProps["kind"], string> = {
+    loading: "Loading route data…",
+    empty: "No cost or spread data for the selected routes",
+    error: "Could not load route data",
+}
+
+export default function ChartStatus({ kind, message, onRetry }: ChartStatusProps) {
+    return (
+        <div
+            role={kind === "error" ? "alert" : "status"}
+            style={{
+                height: "100%",
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "center",
+                justifyContent: "center",
+                gap: 8,
+                color: kind === "error" ? "#ef4444" : "#bbb",
+                fontSize: 14,
+            }}
+        >
+            <div>{TITLES[kind]}</div>
+            {message ? <div style={{ color: "#888", fontSize: 12 }}>{message}</div> : null}
+            {onRetry ? (
+                <button
+                    type="button"
+                    onClick={onRetry}
+                    style={{
+                        border: "1px solid #444",
+                        borderRadius: 4,
+                        background: "transparent",
+                        color: "#bbb",
+                        cursor: "pointer",
+                        padding: "4px 10px",
+                    }}
+                >
+                    Retry
+                </button>
+            ) : null}
+        </div>
+    )
+}
@@ -0,0 +1,63 @@
+import type { Crossing } from "./pairs"
+import type { MetricBase } from "./types"
+
+type AxisLike = {
+    scale?: (value: unknown) => number
+}
+
+type AxisMap = Record<string, AxisLike>
+
+type CrossingMarkersProps = {
+    crossings: Crossing[]
+    selectedId?: string | null
+    /** Y axis each metric is plotted against; markers sit on the spread's. */
+    yAxisIds?: Partial<Record<MetricBase, string>>
+}
+
+const SIZE = 5
+
+export default function CrossingMarkers(props: CrossingMarkersProps & Record<string, unknown>) {
+    const { crossings, selectedId, yAxisIds = {} } = props
+
+    // Injected by Recharts Customized
+    const { xAxisMap, yAxisMap, id: chartId } = props as unknown as {
+        xAxisMap?: AxisMap
+        yAxisMap?: AxisMap
+        id?: string
+    }
+    const sx = xAxisMap ? Object.values(xAxisMap)[0]?.scale : undefined
+    const scaleFor = (base: MetricBase) => {
+        const id = yAxisIds[base]
+        return yAxisMap ? ((id ? yAxisMap[id] : undefined) ?? Object.values(yAxisMap)[0])?.scale : undefined
+    }
+    if (!sx || crossings.length === 0) return null
+
+    return (
+        <g pointerEvents="none" clipPath={chartId ? `url(#${chartId}-clip)` : undefined}>
+            {crossings.map((c) => {
+                const sy = scaleFor(c.pair.spread)
+                if (!sy) return null
+                const x = sx(c.x)
+                const y = sy(c.level)
+                if (!Number.isFinite(x) || !Number.isFinite(y)) return null
+
+                const isSelected = c.id === selectedId
+                const s = isSelected ? SIZE * 1.8 : SIZE
+                // Up-pointing triangle for moves into the money, down-pointing for moves out
+                const points = c.direction === "into"
+                    ? `${x},${y - s} ${x - s},${y + s} ${x + s},${y + s}`
+                    : `${x},${y + s} ${x - s},${y - s} ${x + s},${y - s}`
+
+                return (
+                    <polygon
+                        key={c.id}
+                        points={points}
+                        fill={c.direction === "into" ? "#22c55e" : "#ef4444"}
+                        stroke={isSelected ? "#fff" : "none"}
+                        strokeWidth={1}
+                    />
+                )
+            })}
+        </g>
+    )
+}
@@ -0,0 +1,109 @@
+import { useState } from "react"
+import type { SeriesOption } from "./App"
+import { pairLabel, pairSeriesLabel, type Crossing } from "./pairs"
+
+type SortKey = "time" | "series" | "pair" | "direction" | "level"
+
+type CrossingsTableProps = {
+    crossings: Crossing[]
+    series: SeriesOption[]
+    selectedId?: string | null
+    formatTime: (x: number) => string
+    onSelect: (crossing: Crossing) => void
+}
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+    { key: "time", label: "Time" },
+    { key: "series", label: "Route" },
+    { key: "pair", label: "Pair" },
+    { key: "direction", label: "Direction" },
+    { key: "level", label: "Level" },
+]
+
+export default function CrossingsTable({ crossings, series, selectedId, formatTime, onSelect }: CrossingsTableProps) {
+    const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: "time", desc: false })
+
+    const seriesLabel = (key: string) => series.find((s) => s.key === key)?.label ?? key
+
+    const sortValue = (c: Crossing, key: SortKey): string | number => {
+        switch (key) {
+            case "time":
+                return c.x
+            case "series":
+                return pairSeriesLabel(c.pair, seriesLabel)
+            case "pair":
+                return pairLabel(c.pair.spread, c.pair.cost)
+            case "direction":
+                return c.direction
+            case "level":
+                return c.level
+        }
+    }
+
+    const rows = [...crossings].sort((a, b) => {
+        const va = sortValue(a, sort.key)
+        const vb = sortValue(b, sort.key)
+        const cmp = typeof va === "number" && typeof vb === "number" ? va - vb : String(va).localeCompare(String(vb))
+        return (sort.desc ? -cmp : cmp) || a.x - b.x
+    })
+
+    const toggleSort = (key: SortKey) =>
+        setSort((prev) => (prev.key === key ? { key, desc: !prev.desc } : { key, desc: false }))
+
+    return (
+        <div style={{ maxHeight: 600, overflowY: "auto", color: "#bbb", fontSize: 12 }}>
+            <div style={{ color: "#888", padding: "0 0 6px" }}>Crossings ({crossings.length})</div>
+            {crossings.length === 0 ? (
+                <div style={{ color: "#666" }}>No spread/cost crossings for the visible pairs</div>
+            ) : (
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                        <tr>
+                            {COLUMNS.map((col) => (
+                                <th
+                                    key={col.key}
+                                    onClick={() => toggleSort(col.key)}
+                                    aria-sort={sort.key === col.key ? (sort.desc ? "descending" : "ascending") : undefined}
+                                    style={{
+                                        position: "sticky",
+                                        top: 0,
+                                        background: "hsl(240deg 30% 5%)",
+                                        color: sort.key === col.key ? "#fff" : "#888",
+                                        cursor: "pointer",
+                                        fontWeight: 400,
+                                        textAlign: "left",
+                                        padding: "4px 6px",
+                                        whiteSpace: "nowrap",
+                                    }}
+                                >
+                                    {col.label}
+                                    {sort.key === col.key ? (sort.desc ? " ▾" : " ▴") : ""}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((c) => (
+                            <tr
+                                key={c.id}
+                                onClick={() => onSelect(c)}
+                                style={{
+                                    cursor: "pointer",
+                                    background: c.id === selectedId ? "#222" : "transparent",
+                                }}
+                            >
+                                <td style={{ padding: "3px 6px", whiteSpace: "nowrap" }}>{formatTime(c.x)}</td>
+                                <td style={{ padding: "3px 6px" }}>{pairSeriesLabel(c.pair, seriesLabel)}</td>
+                                <td style={{ padding: "3px 6px" }}>{pairLabel(c.pair.spread, c.pair.cost)}</td>
+                                <td style={{ padding: "3px 6px", color: c.direction === "into" ? "#22c55e" : "#ef4444" }}>
+                                    {c.direction === "into" ? "Into the money" : "Out of the money"}
+                                </td>
+                                <td style={{ padding: "3px 6px", textAlign: "right" }}>{c.level.toFixed(4)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    )
+}
@@ -1,4 +1,9 @@
 import type { DataKey } from "recharts/types/util/types"
+import type { RouteOption } from "./App"
+import { routeDescription } from "./routes"
+import { METRICS, RENDER_MODES } from "./constants"
+import SourcePairingControl from "./SourcePairingControl"
+import type { MetricBase, RenderMode, SourcePairing } from "./types"
 
 type LegendPayloadItem = {
     dataKey?: DataKey<unknown>
@@ -10,20 +15,26 @@ type CustomLegendProps = {
     payload?: LegendPayloadItem[]
     hiddenKeys: Record<string, boolean>
     onToggle: (key: string) => void
+    routes?: RouteOption[]
+    onToggleRoute?: (key: string) => void
+    pairing?: SourcePairing
+    onPairingChange?: (pairing: SourcePairing) => void
+    renderModes?: Record<MetricBase, RenderMode>
+    onRenderModeChange?: (key: string, mode: RenderMode) => void
 }
 
-const LABELS: Record<string, string> = {
-    spread_acp: "Spread ACP",
-    spread_trayport: "Spread Trayport",
-    cost_all: "Cost All",
-    cost_fixed: "Cost Fixed",
-    cost_variable: "Cost Variable",
-}
+const LABELS: Record<string, string> = Object.fromEntries(METRICS.map((m) => [m.key, m.label]))
 
 export default function CustomLegend({
     payload,
     hiddenKeys,
     onToggle,
+    routes = [],
+    onToggleRoute,
+    pairing,
+    onPairingChange,
+    renderModes,
+    onRenderModeChange,
 }: CustomLegendProps) {
     if (!payload || payload.length === 0) return null
 
@@ -41,42 +52,102 @@ export default function CustomLegend({
     }, [] as Array<{ entry: LegendPayloadItem; key: string }>)
 
     return (
-        <div style={{ display: "flex", flexWrap: "wrap", gap: 12, paddingLeft: 55, paddingTop: 10 }}>
-            {unique.map(({ entry, key }, idx) => {
-                const isHidden = Boolean(hiddenKeys[key])
-                const color = String(entry.color ?? "#111")
+        <div style={{ display: "flex", flexDirection: "column", gap: 6, paddingLeft: 55, paddingTop: 10 }}>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 12 }}>
+                {unique.map(({ entry, key }, idx) => {
+                    const isHidden = Boolean(hiddenKeys[key])
+                    const color = String(entry.color ?? "#111")
+
+                    const mode = renderModes?.[key as MetricBase]
 
-                return (
-                    <button
-                        key={`${key}-${idx}`}
-                        type="button"
-                        onClick={() => onToggle(key)}
-                        style={{
-                            display: "inline-flex",
-                            alignItems: "center",
-                            gap: 8,
-                            border: 0,
-                            background: "transparent",
-                            cursor: "pointer",
-                            padding: "2px 4px",
-                            opacity: isHidden ? 0.25 : 1,
-                        }}
-                        title="Toggle series"
-                    >
-                        <span
-                            aria-hidden
+                    return (
+                        <span key={`${key}-${idx}`} style={{ display: "inline-flex", alignItems: "center", gap: 2 }}>
+                            <button
+                                type="button"
+                                onClick={() => onToggle(key)}
+                                style={{
+                                    display: "inline-flex",
+                                    alignItems: "center",
+                                    gap: 8,
+                                    border: 0,
+                                    background: "transparent",
+                                    cursor: "pointer",
+                                    padding: "2px 4px",
+                                    opacity: isHidden ? 0.25 : 1,
+                                }}
+                                title="Toggle series"
+                            >
+                                <span
+                                    aria-hidden
+                                    style={{
+                                        width: 8,
+                                        height: 8,
+                                        borderRadius: 1,
+                                        background: color,
+                                        display: "inline-block",
+                                    }}
+                                />
+                                <span style={{ fontSize: 14, color, lineHeight: 1 }}>{LABELS[entry.value || ""] ?? entry.value}</span>
+                            </button>
+                            {mode && onRenderModeChange && !isHidden ? (
+                                <select
+                                    value={mode}
+                                    onChange={(e) => onRenderModeChange(key, e.target.value as RenderMode)}
+                                    title="Rendering mode"
+                                    style={{
+                                        border: "1px solid #333",
+                                        borderRadius: 4,
+                                        background: "transparent",
+                                        color: "#888",
+                                        fontSize: 11,
+                                        padding: "0 2px",
+                                    }}
+                                >
+                                    {RENDER_MODES.map((m) => (
+                                        <option key={m.key} value={m.key}>{m.label}</option>
+                                    ))}
+                                </select>
+                            ) : null}
+                        </span>
+                    )
+                })}
+            </div>
+            {routes.length > 1 ? (
+                <div style={{ display: "flex", flexWrap: "wrap", gap: 12 }}>
+                    {routes.map((route) => (
+                        <button
+                            key={route.key}
+                            type="button"
+                            onClick={() => onToggleRoute?.(route.key)}
                             style={{
-                                width: 8,
-                                height: 8,
-                                borderRadius: 1,
-                                background: color,
-                                display: "inline-block",
+                                display: "inline-flex",
+                                alignItems: "center",
+                                gap: 8,
+                                border: 0,
+                                background: "transparent",
+                                cursor: "pointer",
+                                padding: "2px 4px",
+                                opacity: route.hidden ? 0.25 : 1,
                             }}
-                        />
-                        <span style={{ fontSize: 14, color, lineHeight: 1 }}>{LABELS[entry.value || ""] ?? entry.value}</span>
-                    </button>
-                )
-            })}
+                            title={`Toggle ${routeDescription(route.route)}`}
+                        >
+                            <svg width={24} height={8} aria-hidden>
+                                <line
+                                    x1={0}
+                                    y1={4}
+                                    x2={24}
+                                    y2={4}
+                                    stroke="#bbb"
+                                    strokeWidth={1.5}
+                                    strokeDasharray={route.strokeDasharray}
+                                />
+                            </svg>
+                            <span style={{ fontSize: 14, color: "#bbb", lineHeight: 1 }}>{route.label}</span>
+                        </button>
+                    ))}
+                </div>
+            ) : null}
+            {pairing && onPairingChange ? <SourcePairingControl pairing={pairing} onChange={onPairingChange} /> : null}
         </div>
     )
 }
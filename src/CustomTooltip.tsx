@@ -3,18 +3,46 @@ import type {
     NameType,
     ValueType,
 } from "recharts/types/component/DefaultTooltipContent"
-import { COLORS, METRICS } from "./constants"
-import type { CombinedRow } from "./types"
+import { COLORS, DEFAULT_HIGHLIGHT_THRESHOLD, METRICS, PRICE_SOURCES, ROUTE_DIFF_STYLE } from "./constants"
+import { metricKey, ohlcKey } from "./combine"
+import type { SeriesOption } from "./App"
+import {
+    marginKey,
+    pairLabel,
+    pairMarginKey,
+    pairSeriesLabel,
+    regimeOf,
+    uniqueMetricPairs,
+    type MetricPair,
+    type Regime,
+} from "./pairs"
+import { beatsOther, diffKey, type RouteDiff } from "./routeDiff"
+import { isStale } from "./stale"
+import { formatInZone, zoneAbbreviation } from "./timeZone"
+import type { CombinedRow, DisplayZone, HighlightThreshold, MetricBase, RenderMode, SeriesKey, SourcePairing } from "./types"
 
-export default function TwoRouteTooltip({
+const REGIME_COLORS: Record<Regime, string> = { above: "#22c55e", neutral: "#94a3b8", below: "#ef4444" }
+
+export default function RouteTooltip({
     active,
-    label,
     payload,
-    hasRoute2,
+    series,
     hiddenKeys,
+    pairing,
+    renderModes,
+    pairs = [],
+    threshold = DEFAULT_HIGHLIGHT_THRESHOLD,
+    routeDiffs = [],
+    timeZone = "uk",
 }: TooltipProps<ValueType, NameType> & {
-    hasRoute2: boolean
+    series: SeriesOption[]
     hiddenKeys: Record<string, boolean>
+    pairing?: SourcePairing
+    renderModes?: Record<MetricBase, RenderMode>
+    pairs?: MetricPair[]
+    threshold?: HighlightThreshold
+    routeDiffs?: RouteDiff[]
+    timeZone?: DisplayZone
 }) {
     if (!active || !payload || payload.length === 0) return null
 
@@ -24,6 +52,28 @@ export default function TwoRouteTooltip({
     const formatNum = (v: unknown) =>
         typeof v === "number" && Number.isFinite(v) ? v.toFixed(4) : "—"
 
+    const formatOhlc = (base: MetricBase, sr: SeriesKey) => {
+        const [o, h, l, c] = (["open", "max", "min", "close"] as const).map((f) => row[ohlcKey(base, sr, f)])
+        if (o === undefined && h === undefined && l === undefined && c === undefined) return null
+        return `O ${formatNum(o)} H ${formatNum(h)} L ${formatNum(l)} C ${formatNum(c)}`
+    }
+
+    const seriesLabel = (key: string) => series.find((s) => s.key === key)?.label ?? key
+
+    const marginColor = (key: keyof CombinedRow, aKey: keyof CombinedRow, bKey: keyof CombinedRow) => {
+        const v = row[key]
+        if (typeof v !== "number") return undefined
+        // The cost may be forward-filled at this row, so fall back to spread minus margin
+        const a = row[aKey]
+        const b = row[bKey]
+        return REGIME_COLORS[regimeOf(v, typeof b === "number" ? b : typeof a === "number" ? a - v : 0, threshold)]
+    }
+
+    const pairedWith = (m: (typeof METRICS)[number]) =>
+        m.kind === "spread" && pairing
+            ? PRICE_SOURCES.filter((s) => pairing[m.source].includes(s.key)).map((s) => s.label).join(" / ")
+            : ""
+
     return (
         <div
             style={{
@@ -32,40 +82,96 @@ export default function TwoRouteTooltip({
                 padding: "10px 12px",
                 color: "#fff",
                 boxShadow: "0 6px 16px rgba(0,0,0,0.4)",
-                minWidth: 320,
+                minWidth: 200 + 120 * (series.length + routeDiffs.length),
             }}
         >
             <div style={{ color: "#bbb", fontSize: 16, marginBottom: 8 }}>
-                {String(label ?? "")}
+                {formatInZone(row.time, timeZone, "YYYY-MM-DD HH:mm")}
+                <span style={{ color: "#888", fontSize: 12 }}> {zoneAbbreviation(row.time, timeZone)}</span>
             </div>
 
             <div
                 style={{
                     display: "grid",
-                    gridTemplateColumns: hasRoute2 ? "1.3fr 1fr 1fr" : "1.3fr 1fr",
+                    gridTemplateColumns: `1.3fr ${"1fr ".repeat(series.length + routeDiffs.length)}`.trim(),
                     gap: 8,
                     alignItems: "center",
                 }}
             >
                 <div />
-                <div style={{ color: "#bbb", fontSize: 12 }}>Route 1</div>
-                {hasRoute2 ? <div style={{ color: "#bbb", fontSize: 12 }}>Route 2</div> : null}
+                {series.map((r) => (
+                    <div key={r.key} style={{ display: "inline-flex", alignItems: "center", gap: 6, color: "#bbb", fontSize: 12 }}>
+                        <svg width={16} height={6} aria-hidden>
+                            <line x1={0} y1={3} x2={16} y2={3} stroke="#bbb" strokeWidth={1.5} strokeDasharray={r.strokeDasharray} strokeOpacity={r.strokeOpacity} />
+                        </svg>
+                        {r.label}
+                    </div>
+                ))}
+                {routeDiffs.map((d) => (
+                    <div key={d.id} style={{ color: "#bbb", fontSize: 12 }}>{d.label}</div>
+                ))}
 
                 {METRICS.filter((m) => !hiddenKeys[m.key]).map((m) => {
-                    const v1 = row[`${m.key}_r1` as keyof CombinedRow]
-                    const v2 = row[`${m.key}_r2` as keyof CombinedRow]
                     const color = COLORS[m.colorKey]
 
                     return (
                         <div key={m.key} style={{ display: "contents" }}>
                             <div style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
                                 <span style={{ fontSize: 12, color }}>{m.label}</span>
+                                {pairedWith(m) ? <span style={{ fontSize: 11, color: "#888" }}>vs {pairedWith(m)}</span> : null}
                             </div>
-                            <div style={{ fontSize: 12 }}>{formatNum(v1)}</div>
-                            {hasRoute2 ? <div style={{ fontSize: 12 }}>{formatNum(v2)}</div> : null}
+                            {series.map((r) => {
+                                const ohlc = (renderModes?.[m.key] ?? "line") !== "line" ? formatOhlc(m.key, r.key) : null
+                                return (
+                                    <div key={r.key} style={{ fontSize: 12 }}>
+                                        {formatNum(row[metricKey(m.key, r.key)])}
+                                        {isStale(row, metricKey(m.key, r.key)) ? (
+                                            <span style={{ color: "#888", fontSize: 10 }} title="Same value as the previous snapshots">
+                                                {" "}stale
+                                            </span>
+                                        ) : null}
+                                        {ohlc ? <div style={{ color: "#888", fontSize: 10, whiteSpace: "nowrap" }}>{ohlc}</div> : null}
+                                    </div>
+                                )
+                            })}
+                            {routeDiffs.map((d) => {
+                                const v = row[diffKey(m.key, d.series, d.other)]
+                                const color = typeof v === "number" && v !== 0
+                                    ? beatsOther(m.key, v) ? ROUTE_DIFF_STYLE.aboveColor : ROUTE_DIFF_STYLE.belowColor
+                                    : undefined
+                                return <div key={d.id} style={{ fontSize: 12, color }}>{formatNum(v)}</div>
+                            })}
                         </div>
                     )
                 })}
+
+                {uniqueMetricPairs(pairs).map(({ spread, cost }) => (
+                    <div key={`${spread}-${cost}`} style={{ display: "contents" }}>
+                        <span style={{ fontSize: 12, color: "#bbb" }}>{pairLabel(spread, cost)}</span>
+                        {series.map((r) => (
+                            <div key={r.key} style={{ fontSize: 12, color: marginColor(marginKey(spread, cost, r.key), metricKey(spread, r.key), metricKey(cost, r.key)) }}>
+                                {formatNum(row[marginKey(spread, cost, r.key)])}
+                            </div>
+                        ))}
+                        {routeDiffs.map((d) => <div key={d.id} />)}
+                    </div>
+                ))}
+
+                {/* Cross-series pairs are shown in their spread's column */}
+                {pairs.filter((p) => p.costSeries !== p.series).map((p) => (
+                    <div key={p.id} style={{ display: "contents" }}>
+                        <span style={{ fontSize: 12, color: "#bbb" }}>
+                            {pairLabel(p.spread, p.cost)}
+                            <span style={{ fontSize: 11, color: "#888" }}> {pairSeriesLabel(p, seriesLabel)}</span>
+                        </span>
+                        {series.map((r) => (
+                            <div key={r.key} style={{ fontSize: 12, color: marginColor(pairMarginKey(p), p.aKey, p.bKey) }}>
+                                {r.key === p.series ? formatNum(row[pairMarginKey(p)]) : ""}
+                            </div>
+                        ))}
+                        {routeDiffs.map((d) => <div key={d.id} />)}
+                    </div>
+                ))}
             </div>
         </div>
     )
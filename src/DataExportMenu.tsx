@@ -0,0 +1,93 @@
+import { useState } from "react"
+import { downloadBlob } from "./exportImage"
+import { buildTable, exportColumns, toCsv, type TableExportOptions } from "./exportTable"
+import type { CombinedRow } from "./types"
+import { buildXlsx } from "./xlsx"
+
+type DataFormat = "csv" | "xlsx"
+
+type DataExportMenuProps = Omit<TableExportOptions, "includeMargins" | "includeDedupFlags"> & {
+    /** Rows of the visible range, looked up when the export runs. */
+    getRows: () => CombinedRow[]
+    filename: string
+}
+
+const buttonStyle = {
+    border: "1px solid #333",
+    borderRadius: 4,
+    background: "transparent",
+    color: "#bbb",
+    cursor: "pointer",
+    fontSize: 12,
+    padding: "1px 8px",
+}
+
+export default function DataExportMenu({ getRows, filename, ...options }: DataExportMenuProps) {
+    const [open, setOpen] = useState(false)
+    const [format, setFormat] = useState<DataFormat>("csv")
+    const [includeMargins, setIncludeMargins] = useState(false)
+    const [includeDedupFlags, setIncludeDedupFlags] = useState(false)
+
+    const runExport = () => {
+        const rows = getRows()
+        const table = buildTable(rows, exportColumns({ ...options, includeMargins, includeDedupFlags }))
+        const blob = format === "csv" ? new Blob([toCsv(table)], { type: "text/csv;charset=utf-8" }) : buildXlsx(table)
+        downloadBlob(blob, `${filename}.${format}`)
+        setOpen(false)
+    }
+
+    return (
+        <span style={{ position: "relative" }}>
+            <button type="button" onClick={() => setOpen((o) => !o)} style={buttonStyle} aria-expanded={open}>
+                Export data
+            </button>
+            {open ? (
+                <div
+                    style={{
+                        position: "absolute",
+                        top: "calc(100% + 4px)",
+                        right: 0,
+                        zIndex: 10,
+                        display: "flex",
+                        flexDirection: "column",
+                        gap: 8,
+                        padding: 10,
+                        background: "#111",
+                        border: "1px solid #333",
+                        borderRadius: 6,
+                        color: "#888",
+                        fontSize: 12,
+                        whiteSpace: "nowrap",
+                    }}
+                >
+                    <div style={{ display: "flex", gap: 12 }}>
+                        {(["csv", "xlsx"] as const).map((f) => (
+                            <label key={f} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                                <input type="radio" checked={format === f} onChange={() => setFormat(f)} />
+                                {f.toUpperCase()}
+                            </label>
+                        ))}
+                    </div>
+                    <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                        <input type="checkbox" checked={includeMargins} onChange={(e) => setIncludeMargins(e.target.checked)} />
+                        Margin columns ({options.pairs.length})
+                    </label>
+                    <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                        <input
+                            type="checkbox"
+                            checked={includeDedupFlags}
+                            onChange={(e) => setIncludeDedupFlags(e.target.checked)}
+                        />
+                        Deduplication flags
+                    </label>
+                    <div>Visible range, one column per visible metric and series</div>
+                    <div>
+                        <button type="button" onClick={runExport} style={buttonStyle}>
+                            Download
+                        </button>
+                    </div>
+                </div>
+            ) : null}
+        </span>
+    )
+}
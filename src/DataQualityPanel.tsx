@@ -0,0 +1,100 @@
+import { useMemo, useState } from "react"
+import { routeDisplayName } from "./routes"
+import type { Route } from "./types"
+import type { ValidationIssue } from "./validation"
+
+type DataQualityPanelProps = {
+    issues: ValidationIssue[]
+    routes: Route[]
+}
+
+type IssueGroup = { key: string; first: ValidationIssue; issues: ValidationIssue[] }
+
+const MAX_LISTED = 50
+
+export default function DataQualityPanel({ issues, routes }: DataQualityPanelProps) {
+    const [expanded, setExpanded] = useState<string | null>(null)
+
+    const routeName = (id: string) => {
+        const route = routes.find((r) => r.id === id)
+        return route ? routeDisplayName(route) : id
+    }
+
+    // Undeclared fields and repeated spreads hit nearly every row, so issues are grouped by kind
+    const groups = useMemo(() => {
+        const map = new Map<string, IssueGroup>()
+        for (const issue of issues) {
+            const detail = issue.code === "unknown-field" || issue.code === "repeated-values" ? issue.message : ""
+            const key = `${issue.routeId}|${issue.kind}|${issue.severity}|${issue.code}|${detail}`
+            const group = map.get(key)
+            if (group) group.issues.push(issue)
+            else map.set(key, { key, first: issue, issues: [issue] })
+        }
+        return Array.from(map.values()).sort(
+            (a, b) => Number(b.first.severity === "error") - Number(a.first.severity === "error") || b.issues.length - a.issues.length
+        )
+    }, [issues])
+
+    const rejected = issues.filter((i) => i.severity === "error").length
+
+    return (
+        <div style={{ color: "#bbb", fontSize: 12, padding: "8px 0 0 75px" }}>
+            <div style={{ color: "#888", paddingBottom: 6 }}>
+                Data quality: {rejected} rejected, {issues.length - rejected} warnings
+            </div>
+            {groups.length === 0 ? (
+                <div style={{ color: "#666" }}>All points passed validation</div>
+            ) : (
+                <table style={{ borderCollapse: "collapse" }}>
+                    <tbody>
+                        {groups.map((g) => (
+                            <GroupRows
+                                key={g.key}
+                                group={g}
+                                routeName={routeName(g.first.routeId)}
+                                open={expanded === g.key}
+                                onToggle={() => setExpanded((k) => (k === g.key ? null : g.key))}
+                            />
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    )
+}
+
+function GroupRows({ group, routeName, open, onToggle }: { group: IssueGroup; routeName: string; open: boolean; onToggle: () => void }) {
+    const { first, issues } = group
+    const isError = first.severity === "error"
+    const summary = first.code === "unknown-field" || first.code === "repeated-values" ? first.message : first.code
+
+    return (
+        <>
+            <tr onClick={onToggle} style={{ cursor: "pointer" }}>
+                <td style={{ padding: "3px 6px", color: isError ? "#ef4444" : "#facc15" }}>{isError ? "Rejected" : "Warning"}</td>
+                <td style={{ padding: "3px 6px" }}>{routeName}</td>
+                <td style={{ padding: "3px 6px", color: "#888" }}>{first.kind}</td>
+                <td style={{ padding: "3px 6px" }}>{summary}</td>
+                <td style={{ padding: "3px 6px", textAlign: "right" }}>
+                    {issues.length} {open ? "▾" : "▸"}
+                </td>
+            </tr>
+            {open
+                ? issues.slice(0, MAX_LISTED).map((i, idx) => (
+                      <tr key={idx} style={{ color: "#888" }}>
+                          <td />
+                          <td style={{ padding: "1px 6px" }}>#{i.index + 1}</td>
+                          <td style={{ padding: "1px 6px", whiteSpace: "nowrap" }}>{i.timestampUk ?? "—"}</td>
+                          <td colSpan={2} style={{ padding: "1px 6px" }}>{i.message}</td>
+                      </tr>
+                  ))
+                : null}
+            {open && issues.length > MAX_LISTED ? (
+                <tr style={{ color: "#666" }}>
+                    <td />
+                    <td colSpan={4} style={{ padding: "1px 6px" }}>…and {issues.length - MAX_LISTED} more</td>
+                </tr>
+            ) : null}
+        </>
+    )
+}
@@ -0,0 +1,142 @@
+import { useState } from "react"
+import { DEDUP_IDENTITY_FIELDS, UK_MARKET_HOLIDAYS } from "./constants"
+import { DEDUP_REASONS, type DedupAudit } from "./dedup"
+import type { DedupConfig } from "./types"
+
+type DedupPanelProps = {
+    config: DedupConfig
+    onChange: (config: DedupConfig) => void
+    audit: DedupAudit
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+const labelStyle = { display: "inline-flex", alignItems: "center", gap: 4 }
+
+export default function DedupPanel({ config, onChange, audit }: DedupPanelProps) {
+    const [newDate, setNewDate] = useState("")
+
+    const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter((x) => x !== item) : [...list, item])
+
+    const weeks = Array.from(audit.weeks.entries()).sort(([a], [b]) => a.localeCompare(b))
+    const total = weeks.reduce((n, [, counts]) => n + counts.weekend + counts.holiday + counts["non-trading"], 0)
+
+    return (
+        <div style={{ display: "flex", gap: 32, color: "#bbb", fontSize: 12, padding: "8px 0 0 75px" }}>
+            <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                <div style={{ color: "#888" }}>Collapse identical snapshots on closed days</div>
+                <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                    <span style={{ color: "#888" }}>Weekend</span>
+                    {WEEKDAYS.map((d, idx) => (
+                        <label key={d} style={labelStyle}>
+                            <input
+                                type="checkbox"
+                                checked={config.weekendDays.includes(idx)}
+                                onChange={() => onChange({ ...config, weekendDays: toggle(config.weekendDays, idx) })}
+                            />
+                            {d}
+                        </label>
+                    ))}
+                </div>
+                <label style={labelStyle} title={UK_MARKET_HOLIDAYS.map((h) => `${h.date} ${h.name}`).join("\n")}>
+                    <input
+                        type="checkbox"
+                        checked={config.useHolidayCalendar}
+                        onChange={(e) => onChange({ ...config, useHolidayCalendar: e.target.checked })}
+                    />
+                    UK gas &amp; power holidays ({UK_MARKET_HOLIDAYS.length})
+                </label>
+                <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 6 }}>
+                    <span style={{ color: "#888" }}>Non-trading days</span>
+                    {config.nonTradingDays.map((date) => (
+                        <button
+                            key={date}
+                            type="button"
+                            onClick={() => onChange({ ...config, nonTradingDays: toggle(config.nonTradingDays, date) })}
+                            title="Remove"
+                            style={{
+                                border: "1px solid #333",
+                                borderRadius: 4,
+                                background: "#222",
+                                color: "#bbb",
+                                cursor: "pointer",
+                                fontSize: 12,
+                                padding: "1px 6px",
+                            }}
+                        >
+                            {date} ×
+                        </button>
+                    ))}
+                    <input
+                        type="date"
+                        value={newDate}
+                        onChange={(e) => setNewDate(e.target.value)}
+                        style={{ background: "transparent", border: "1px solid #333", borderRadius: 4, color: "#bbb", fontSize: 12 }}
+                    />
+                    <button
+                        type="button"
+                        disabled={!newDate || config.nonTradingDays.includes(newDate)}
+                        onClick={() => {
+                            onChange({ ...config, nonTradingDays: [...config.nonTradingDays, newDate].sort() })
+                            setNewDate("")
+                        }}
+                        style={{
+                            border: "1px solid #333",
+                            borderRadius: 4,
+                            background: "transparent",
+                            color: "#bbb",
+                            cursor: "pointer",
+                            fontSize: 12,
+                            padding: "1px 6px",
+                        }}
+                    >
+                        Add
+                    </button>
+                </div>
+                <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+                    <span style={{ color: "#888" }}>Identical when equal in</span>
+                    {DEDUP_IDENTITY_FIELDS.map((f) => (
+                        <label key={f} style={labelStyle}>
+                            <input
+                                type="checkbox"
+                                checked={config.identityFields.includes(f)}
+                                onChange={() => onChange({ ...config, identityFields: toggle(config.identityFields, f) })}
+                            />
+                            {f}
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <div style={{ color: "#888", paddingBottom: 6 }}>Removed rows: {total}</div>
+                {weeks.length ? (
+                    <table style={{ borderCollapse: "collapse" }}>
+                        <thead>
+                            <tr style={{ color: "#888" }}>
+                                <th style={{ padding: "2px 6px", fontWeight: 400, textAlign: "left" }}>Week</th>
+                                {DEDUP_REASONS.map((r) => (
+                                    <th key={r.key} style={{ padding: "2px 6px", fontWeight: 400, textAlign: "right" }}>{r.label}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {weeks.map(([week, counts]) => (
+                                <tr key={week}>
+                                    <td style={{ padding: "2px 6px" }}>{week}</td>
+                                    {DEDUP_REASONS.map((r) => (
+                                        <td key={r.key} style={{ padding: "2px 6px", textAlign: "right", color: counts[r.key] ? "#bbb" : "#666" }}>
+                                            {counts[r.key]}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    <div style={{ color: "#666" }}>Nothing removed for the selected routes and tenors</div>
+                )}
+            </div>
+        </div>
+    )
+}
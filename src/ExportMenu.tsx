@@ -0,0 +1,135 @@
+import { useState } from "react"
+import { buildExportSvg, downloadBlob, svgToPng, type ExportLegendEntry } from "./exportImage"
+
+type ExportFormat = "png" | "svg"
+
+type ExportMenuProps = {
+    /** The rendered chart surface, looked up when the export runs. */
+    getChart: () => SVGSVGElement | null
+    title: string
+    subtitle: string
+    legend: ExportLegendEntry[]
+    filename: string
+}
+
+const inputStyle = {
+    width: 64,
+    background: "transparent",
+    border: "1px solid #333",
+    borderRadius: 4,
+    color: "#bbb",
+    fontSize: 12,
+    padding: "1px 4px",
+}
+
+const buttonStyle = {
+    border: "1px solid #333",
+    borderRadius: 4,
+    background: "transparent",
+    color: "#bbb",
+    cursor: "pointer",
+    fontSize: 12,
+    padding: "1px 8px",
+}
+
+export default function ExportMenu({ getChart, title, subtitle, legend, filename }: ExportMenuProps) {
+    const [open, setOpen] = useState(false)
+    const [format, setFormat] = useState<ExportFormat>("png")
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const openMenu = () => {
+        // Default to the on-screen size of the chart
+        const rect = getChart()?.getBoundingClientRect()
+        setSize((prev) => prev ?? { width: Math.round(rect?.width ?? 1200), height: Math.round((rect?.height ?? 600) + 100) })
+        setError(null)
+        setOpen((o) => !o)
+    }
+
+    const runExport = async () => {
+        const chart = getChart()
+        if (!chart || !size) return setError("Chart is not rendered")
+
+        try {
+            const svg = buildExportSvg(chart, { title, subtitle, legend, ...size })
+            const blob =
+                format === "svg"
+                    ? new Blob([svg], { type: "image/svg+xml;charset=utf-8" })
+                    : await svgToPng(svg, size.width, size.height)
+            downloadBlob(blob, `${filename}.${format}`)
+            setOpen(false)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err))
+        }
+    }
+
+    const setDimension = (key: "width" | "height", value: string) => {
+        const n = Math.round(Number(value))
+        if (size && Number.isFinite(n) && n > 0) setSize({ ...size, [key]: n })
+    }
+
+    return (
+        <span style={{ position: "relative" }}>
+            <button type="button" onClick={openMenu} style={buttonStyle} aria-expanded={open}>
+                Export image
+            </button>
+            {open && size ? (
+                <div
+                    style={{
+                        position: "absolute",
+                        top: "calc(100% + 4px)",
+                        right: 0,
+                        zIndex: 10,
+                        display: "flex",
+                        flexDirection: "column",
+                        gap: 8,
+                        padding: 10,
+                        background: "#111",
+                        border: "1px solid #333",
+                        borderRadius: 6,
+                        color: "#888",
+                        fontSize: 12,
+                        whiteSpace: "nowrap",
+                    }}
+                >
+                    <div style={{ display: "flex", gap: 12 }}>
+                        {(["png", "svg"] as const).map((f) => (
+                            <label key={f} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                                <input type="radio" checked={format === f} onChange={() => setFormat(f)} />
+                                {f.toUpperCase()}
+                            </label>
+                        ))}
+                    </div>
+                    <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                        <input
+                            type="number"
+                            min={200}
+                            value={size.width}
+                            onChange={(e) => setDimension("width", e.target.value)}
+                            style={inputStyle}
+                            aria-label="Width"
+                        />
+                        ×
+                        <input
+                            type="number"
+                            min={200}
+                            value={size.height}
+                            onChange={(e) => setDimension("height", e.target.value)}
+                            style={inputStyle}
+                            aria-label="Height"
+                        />
+                        px
+                    </div>
+                    <div style={{ color: "#bbb" }}>{title}</div>
+                    <div>{subtitle}</div>
+                    {error ? <div style={{ color: "#ef4444" }}>{error}</div> : null}
+                    <div>
+                        <button type="button" onClick={runExport} style={buttonStyle}>
+                            Download
+                        </button>
+                    </div>
+                </div>
+            ) : null}
+        </span>
+    )
+}
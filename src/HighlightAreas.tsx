@@ -1,15 +1,13 @@
 import { PairHighlighter } from "./PairHiglighter"
-import type { CombinedRow } from "./types"
-
-type CostBase = "cost_all" | "cost_fixed" | "cost_variable"
-type SpreadBase = "spread_acp" | "spread_trayport"
-type RouteKey = "r1" | "r2"
+import type { MetricPair } from "./pairs"
+import type { CombinedRow, HighlightThreshold } from "./types"
 
 type MultiRouteHighlighterProps = {
     data: CombinedRow[]
     enabled: boolean
-    hasRoute2: boolean
-    hidden: Record<string, boolean>
+    /** Spread/cost pairs, or any other two series to shade between (e.g. route differentials), on a Y axis sharing their scale. */
+    pairs: Array<Pick<MetricPair, "id" | "aKey" | "bKey" | "style"> & { yAxisId?: string }>
+    threshold: HighlightThreshold
 }
 
 export default function MultiRouteHighlighter(
@@ -17,39 +15,27 @@ export default function MultiRouteHighlighter(
 ) {
     const {
         enabled,
-        hasRoute2,
-        hidden,
+        pairs,
+        threshold,
     } = props
+    // Chart id, injected by Recharts Customized; the chart renders its plot-area clip path as `<id>-clip`
+    const chartId = props.id as string | undefined
 
     if (!enabled) return null
 
-    const spreads: SpreadBase[] = ["spread_acp", "spread_trayport"]
-    const costs: CostBase[] = ["cost_all", "cost_fixed", "cost_variable"]
-    const routes: RouteKey[] = hasRoute2 ? ["r1", "r2"] : ["r1"]
-    const isVisible = (k: string) => !hidden[k]
-
     return (
-        <>
-            {routes.map((route) =>
-                spreads.map((s) =>
-                    costs.map((c) => {
-                        const pairEnabled = enabled && isVisible(s) && isVisible(c)
-                        if (!pairEnabled) return null
-
-                        const aKey = `${s}_${route}` as keyof CombinedRow
-                        const bKey = `${c}_${route}` as keyof CombinedRow
-
-                        return (
-                            <PairHighlighter
-                                key={`${route}-${s}-${c}`}
-                                aKey={aKey}
-                                bKey={bKey}
-                                {...props} // pass data and Recharts-injected props 
-                            />
-                        )
-                    })
-                )
-            )}
-        </>
+        <g clipPath={chartId ? `url(#${chartId}-clip)` : undefined}>
+            {pairs.map((pair) => (
+                <PairHighlighter
+                    key={pair.id}
+                    {...props} // pass data and Recharts-injected props
+                    aKey={pair.aKey}
+                    bKey={pair.bKey}
+                    threshold={threshold}
+                    style={pair.style}
+                    yAxisId={pair.yAxisId}
+                />
+            ))}
+        </g>
     )
 }
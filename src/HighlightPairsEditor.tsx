@@ -0,0 +1,165 @@
+import type { SeriesOption } from "./App"
+import { COLORS, DEFAULT_PAIR_STYLE, METRICS } from "./constants"
+import type { MetricPair } from "./pairs"
+import type { CostBase, HighlightPairConfig, SeriesKey, SpreadBase } from "./types"
+
+type HighlightPairsEditorProps = {
+    /** `null` highlights every visible spread against its paired costs. */
+    configs: HighlightPairConfig[] | null
+    series: SeriesOption[]
+    /** The automatic pairs, used as a starting point when switching to a custom list. */
+    autoPairs: MetricPair[]
+    onChange: (configs: HighlightPairConfig[] | null) => void
+}
+
+const SPREADS = METRICS.filter((m) => m.kind === "spread")
+const COSTS = METRICS.filter((m) => m.kind === "cost")
+
+const newId = () => `hp-${Math.random().toString(36).slice(2, 10)}`
+
+const selectStyle = {
+    border: "1px solid #333",
+    borderRadius: 4,
+    background: "transparent",
+    color: "#bbb",
+    fontSize: 12,
+    padding: "0 2px",
+}
+
+export default function HighlightPairsEditor({ configs, series, autoPairs, onChange }: HighlightPairsEditorProps) {
+    const isCustom = configs !== null
+
+    const update = (id: string, patch: Partial<HighlightPairConfig>) =>
+        onChange((configs ?? []).map((c) => (c.id === id ? { ...c, ...patch } : c)))
+
+    const addPair = () => {
+        const sr = series[0]?.key ?? ""
+        onChange([
+            ...(configs ?? []),
+            {
+                id: newId(),
+                spread: SPREADS[0].key as SpreadBase,
+                spreadSeries: sr,
+                cost: COSTS[0].key as CostBase,
+                costSeries: series[1]?.key ?? sr,
+                ...DEFAULT_PAIR_STYLE,
+            },
+        ])
+    }
+
+    const switchToCustom = () =>
+        onChange(
+            autoPairs.map((p) => ({
+                id: newId(),
+                spread: p.spread,
+                spreadSeries: p.series,
+                cost: p.cost,
+                costSeries: p.costSeries,
+                ...DEFAULT_PAIR_STYLE,
+            }))
+        )
+
+    const seriesSelect = (value: SeriesKey, onSelect: (key: SeriesKey) => void) => (
+        <select value={value} onChange={(e) => onSelect(e.target.value)} style={selectStyle}>
+            {series.some((s) => s.key === value) ? null : (
+                <option value={value} disabled>
+                    {value} (hidden)
+                </option>
+            )}
+            {series.map((s) => (
+                <option key={s.key} value={s.key}>{s.label}</option>
+            ))}
+        </select>
+    )
+
+    return (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6, color: "#bbb", fontSize: 12, padding: "4px 0 8px 75px" }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 12, color: "#888" }}>
+                <span>Highlight pairs</span>
+                <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                    <input type="radio" checked={!isCustom} onChange={() => onChange(null)} />
+                    Every visible spread vs its paired costs
+                </label>
+                <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                    <input type="radio" checked={isCustom} onChange={switchToCustom} />
+                    Custom
+                </label>
+            </div>
+            {configs?.map((c) => (
+                <div key={c.id} style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 6 }}>
+                    <select
+                        value={c.spread}
+                        onChange={(e) => update(c.id, { spread: e.target.value as SpreadBase })}
+                        style={{ ...selectStyle, color: COLORS[c.spread] }}
+                    >
+                        {SPREADS.map((m) => (
+                            <option key={m.key} value={m.key}>{m.label}</option>
+                        ))}
+                    </select>
+                    {seriesSelect(c.spreadSeries, (key) => update(c.id, { spreadSeries: key }))}
+                    <span style={{ color: "#888" }}>vs</span>
+                    <select
+                        value={c.cost}
+                        onChange={(e) => update(c.id, { cost: e.target.value as CostBase })}
+                        style={{ ...selectStyle, color: COLORS[c.cost] }}
+                    >
+                        {COSTS.map((m) => (
+                            <option key={m.key} value={m.key}>{m.label}</option>
+                        ))}
+                    </select>
+                    {seriesSelect(c.costSeries, (key) => update(c.id, { costSeries: key }))}
+                    <input
+                        type="color"
+                        value={c.aboveColor}
+                        onChange={(e) => update(c.id, { aboveColor: e.target.value })}
+                        title="Fill while the spread is above the cost"
+                    />
+                    <input
+                        type="color"
+                        value={c.belowColor}
+                        onChange={(e) => update(c.id, { belowColor: e.target.value })}
+                        title="Fill while the spread is below the cost"
+                    />
+                    <input
+                        type="range"
+                        min={0.02}
+                        max={0.6}
+                        step={0.02}
+                        value={c.opacity}
+                        onChange={(e) => update(c.id, { opacity: Number(e.target.value) })}
+                        title={`Opacity ${Math.round(c.opacity * 100)}%`}
+                        style={{ width: 80 }}
+                    />
+                    <button
+                        type="button"
+                        onClick={() => onChange((configs ?? []).filter((x) => x.id !== c.id))}
+                        title="Remove pair"
+                        style={{ border: 0, background: "transparent", color: "#888", cursor: "pointer", fontSize: 14 }}
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+            {isCustom ? (
+                <div>
+                    <button
+                        type="button"
+                        onClick={addPair}
+                        disabled={series.length === 0}
+                        style={{
+                            border: "1px solid #333",
+                            borderRadius: 4,
+                            background: "transparent",
+                            color: "#bbb",
+                            cursor: "pointer",
+                            fontSize: 12,
+                            padding: "1px 8px",
+                        }}
+                    >
+                        Add pair
+                    </button>
+                </div>
+            ) : null}
+        </div>
+    )
+}
@@ -0,0 +1,218 @@
+import { useMemo, useState } from "react"
+import {
+    IMPORT_FIELDS,
+    guessMapping,
+    mapRecords,
+    missingFields,
+    type ColumnMapping,
+    type HistoryField,
+    type ImportKind,
+    type ParsedFile,
+} from "./importFile"
+import { routeDisplayName } from "./routes"
+import type { HistoryPoint, Route, RouteKey } from "./types"
+
+export type ImportTarget = { mode: "new"; route: Route } | { mode: "replace"; routeId: RouteKey }
+
+type ImportDialogProps = {
+    file: ParsedFile
+    routes: Route[]
+    onCancel: () => void
+    onLoad: (target: ImportTarget, kind: ImportKind, points: HistoryPoint[]) => void
+}
+
+const inputStyle = {
+    background: "transparent",
+    border: "1px solid #333",
+    borderRadius: 4,
+    color: "#bbb",
+    fontSize: 12,
+    padding: "1px 4px",
+}
+
+const buttonStyle = {
+    border: "1px solid #333",
+    borderRadius: 4,
+    background: "transparent",
+    color: "#bbb",
+    cursor: "pointer",
+    fontSize: 12,
+    padding: "2px 10px",
+}
+
+export default function ImportDialog({ file, routes, onCancel, onLoad }: ImportDialogProps) {
+    const [kind, setKind] = useState<ImportKind>(() =>
+        file.columns.some((c) => /cost.?calc/i.test(c)) && !/spread/i.test(file.name) ? "costs" : "spreads"
+    )
+    const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(file.columns))
+    const [mode, setMode] = useState<ImportTarget["mode"]>("new")
+    const [replaceId, setReplaceId] = useState<RouteKey>(routes[0]?.id ?? "")
+    const [newRoute, setNewRoute] = useState({ originHub: "", destinationHub: "", name: file.name.replace(/\.[^.]+$/, "") })
+
+    const missing = missingFields(mapping, kind)
+    const result = useMemo(
+        () => (missing.length ? null : mapRecords(file.records, mapping, kind)),
+        [missing.length, file.records, mapping, kind]
+    )
+
+    const canLoad =
+        !!result?.points.length &&
+        (mode === "replace" ? routes.some((r) => r.id === replaceId) : newRoute.originHub.trim() && newRoute.destinationHub.trim())
+
+    const load = () => {
+        if (!result || !canLoad) return
+        const target: ImportTarget =
+            mode === "replace"
+                ? { mode, routeId: replaceId }
+                : {
+                      mode,
+                      route: {
+                          id: `import-${Date.now().toString(36)}`,
+                          name: newRoute.name.trim() || undefined,
+                          originHub: newRoute.originHub.trim(),
+                          destinationHub: newRoute.destinationHub.trim(),
+                          capacityProduct: "Imported",
+                          notes: `Imported from ${file.name}`,
+                      },
+                  }
+        onLoad(target, kind, result.points)
+    }
+
+    return (
+        <div
+            role="dialog"
+            aria-label={`Import ${file.name}`}
+            style={{
+                position: "fixed",
+                inset: 0,
+                zIndex: 20,
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                background: "rgba(0,0,0,0.6)",
+            }}
+        >
+            <div
+                style={{
+                    width: 560,
+                    maxHeight: "80vh",
+                    overflowY: "auto",
+                    display: "flex",
+                    flexDirection: "column",
+                    gap: 12,
+                    padding: 16,
+                    background: "#111",
+                    border: "1px solid #333",
+                    borderRadius: 6,
+                    color: "#bbb",
+                    fontSize: 12,
+                }}
+            >
+                <div style={{ fontSize: 16 }}>
+                    Import {file.name} <span style={{ color: "#888", fontSize: 12 }}>({file.records.length} rows)</span>
+                </div>
+
+                <div style={{ display: "flex", gap: 12, color: "#888" }}>
+                    {(["costs", "spreads"] as const).map((k) => (
+                        <label key={k} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                            <input type="radio" checked={kind === k} onChange={() => setKind(k)} />
+                            {k === "costs" ? "Costs" : "Spreads"}
+                        </label>
+                    ))}
+                </div>
+
+                <div style={{ display: "grid", gridTemplateColumns: "160px 1fr", gap: 6, alignItems: "center" }}>
+                    {IMPORT_FIELDS.map((f) => {
+                        const required = f.required === true || f.required === kind
+                        return (
+                            <label key={f.key} style={{ display: "contents" }}>
+                                <span style={{ color: required ? "#bbb" : "#888" }}>
+                                    {f.label}
+                                    {required ? " *" : ""}
+                                </span>
+                                <select
+                                    value={mapping[f.key] ?? ""}
+                                    onChange={(e) =>
+                                        setMapping((m) => ({ ...m, [f.key as HistoryField]: e.target.value || undefined }))
+                                    }
+                                    style={inputStyle}
+                                >
+                                    <option value="">{required ? "— choose a column —" : "— default —"}</option>
+                                    {file.columns.map((c) => (
+                                        <option key={c} value={c}>{c}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        )
+                    })}
+                </div>
+
+                {missing.length ? (
+                    <div style={{ color: "#ef4444" }}>Map the required fields: {missing.map((f) => f.label).join(", ")}</div>
+                ) : result ? (
+                    <div>
+                        <div style={{ color: result.points.length ? "#22c55e" : "#ef4444" }}>
+                            {result.points.length} valid rows
+                            {result.errors.length ? <span style={{ color: "#ef4444" }}>, {result.errors.length} rejected</span> : null}
+                        </div>
+                        {result.errors.slice(0, 5).map((e) => (
+                            <div key={e.row} style={{ color: "#888" }}>
+                                Row {e.row}: {e.message}
+                            </div>
+                        ))}
+                        {result.errors.length > 5 ? <div style={{ color: "#888" }}>…and {result.errors.length - 5} more</div> : null}
+                    </div>
+                ) : null}
+
+                <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+                    <label style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+                        <input type="radio" checked={mode === "new"} onChange={() => setMode("new")} />
+                        New route
+                        <input
+                            placeholder="Origin hub"
+                            value={newRoute.originHub}
+                            onChange={(e) => setNewRoute({ ...newRoute, originHub: e.target.value })}
+                            style={{ ...inputStyle, width: 90 }}
+                        />
+                        →
+                        <input
+                            placeholder="Destination hub"
+                            value={newRoute.destinationHub}
+                            onChange={(e) => setNewRoute({ ...newRoute, destinationHub: e.target.value })}
+                            style={{ ...inputStyle, width: 90 }}
+                        />
+                        <input
+                            placeholder="Name (optional)"
+                            value={newRoute.name}
+                            onChange={(e) => setNewRoute({ ...newRoute, name: e.target.value })}
+                            style={{ ...inputStyle, flex: 1 }}
+                        />
+                    </label>
+                    <label style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+                        <input
+                            type="radio"
+                            checked={mode === "replace"}
+                            disabled={routes.length === 0}
+                            onChange={() => setMode("replace")}
+                        />
+                        Replace the {kind} of
+                        <select value={replaceId} onChange={(e) => setReplaceId(e.target.value)} style={inputStyle}>
+                            {routes.map((r) => (
+                                <option key={r.id} value={r.id}>{routeDisplayName(r)}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+
+                <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+                    <button type="button" onClick={onCancel} style={buttonStyle}>
+                        Cancel
+                    </button>
+                    <button type="button" onClick={load} disabled={!canLoad} style={{ ...buttonStyle, opacity: canLoad ? 1 : 0.5 }}>
+                        Load {result?.points.length ?? 0} rows
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,72 @@
+import {
+    CartesianGrid,
+    ComposedChart,
+    Line,
+    ReferenceArea,
+    ReferenceLine,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from "recharts"
+import type { SeriesOption } from "./App"
+import { COLORS } from "./constants"
+import { pairMarginKey, type MetricPair } from "./pairs"
+import type { CombinedRow, HighlightThreshold } from "./types"
+
+type MarginPanelProps = {
+    data: CombinedRow[]
+    pairs: MetricPair[]
+    series: SeriesOption[]
+    threshold: HighlightThreshold
+    domain: [number, number]
+    ticks: number[]
+    formatX: (x: number) => string
+    syncId: string
+}
+
+export default function MarginPanel({ data, pairs, series, threshold, domain, ticks, formatX, syncId }: MarginPanelProps) {
+    const styleOf = (key: string) => series.find((s) => s.key === key)
+
+    return (
+        <div style={{ width: "100%", height: 180 }}>
+            <ResponsiveContainer>
+                <ComposedChart data={data} syncId={syncId} syncMethod="value" margin={{ top: 10, right: 20, left: 20, bottom: 5 }}>
+                    <CartesianGrid stroke="#ccc" strokeOpacity={0.1} strokeWidth={1} strokeDasharray="5 5" />
+                    <XAxis
+                        dataKey="x"
+                        type="number"
+                        scale="linear"
+                        domain={domain}
+                        ticks={ticks}
+                        tickFormatter={formatX}
+                        allowDataOverflow
+                    />
+                    <YAxis label={{ value: "Margin", angle: -90, position: "insideLeft", fill: "#888", fontSize: 12 }} />
+                    {threshold.mode === "absolute" && threshold.value > 0 ? (
+                        <ReferenceArea y1={-threshold.value} y2={threshold.value} fill="#94a3b8" fillOpacity={0.08} stroke="none" />
+                    ) : null}
+                    <ReferenceLine y={0} stroke="#888" strokeOpacity={0.5} />
+                    <Tooltip content={() => null} cursor={{ stroke: "#111", strokeOpacity: 0.15 }} />
+                    {pairs.map((pair) => {
+                        const style = styleOf(pair.series)
+                        return (
+                            <Line
+                                key={pair.id}
+                                type="linear"
+                                dataKey={pairMarginKey(pair)}
+                                stroke={COLORS[pair.cost]}
+                                strokeWidth={1.5}
+                                strokeDasharray={style?.strokeDasharray}
+                                strokeOpacity={style?.strokeOpacity}
+                                dot={false}
+                                connectNulls
+                                isAnimationActive={false}
+                            />
+                        )
+                    })}
+                </ComposedChart>
+            </ResponsiveContainer>
+        </div>
+    )
+}
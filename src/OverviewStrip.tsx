@@ -0,0 +1,78 @@
+import { Brush, ComposedChart, Line, ResponsiveContainer, XAxis, YAxis } from "recharts"
+import { metricKey } from "./combine"
+import { COLORS, METRICS } from "./constants"
+import type { CombinedRow, SeriesKey } from "./types"
+
+type OverviewStripProps = {
+    data: CombinedRow[]
+    series: SeriesKey[]
+    hidden: Record<string, boolean>
+    range: [number, number] | null
+    onChange: (range: [number, number] | null) => void
+    formatX: (x: number) => string
+}
+
+function indexAtOrAfter(data: CombinedRow[], x: number) {
+    const idx = data.findIndex((row) => row.x >= x)
+    return idx === -1 ? data.length - 1 : idx
+}
+
+function indexAtOrBefore(data: CombinedRow[], x: number) {
+    for (let i = data.length - 1; i >= 0; i--) if (data[i].x <= x) return i
+    return 0
+}
+
+export default function OverviewStrip({ data, series, hidden, range, onChange, formatX }: OverviewStripProps) {
+    if (data.length < 2) return null
+
+    const startIndex = range ? indexAtOrAfter(data, range[0]) : 0
+    const endIndex = range ? Math.max(startIndex, indexAtOrBefore(data, range[1])) : data.length - 1
+    const metrics = METRICS.filter((m) => !hidden[m.key])
+
+    const handleChange = ({ startIndex: s, endIndex: e }: { startIndex?: number; endIndex?: number }) => {
+        if (s === undefined || e === undefined) return
+        onChange(s === 0 && e === data.length - 1 ? null : [data[s].x, data[e].x])
+    }
+
+    return (
+        <div style={{ width: "100%", height: 60 }}>
+            <ResponsiveContainer>
+                <ComposedChart data={data} margin={{ top: 0, right: 20, left: 80, bottom: 0 }}>
+                    <XAxis dataKey="x" type="number" domain={["dataMin", "dataMax"]} hide />
+                    <YAxis hide />
+                    <Brush
+                        dataKey="x"
+                        height={50}
+                        y={5}
+                        startIndex={startIndex}
+                        endIndex={endIndex}
+                        onChange={handleChange}
+                        tickFormatter={formatX}
+                        stroke="#555"
+                        fill="transparent"
+                        travellerWidth={8}
+                    >
+                        <ComposedChart data={data}>
+                            <YAxis hide domain={["auto", "auto"]} />
+                            {series.slice(0, 1).flatMap((sr) =>
+                                metrics.map((m) => (
+                                    <Line
+                                        key={`${m.key}-${sr}`}
+                                        type="linear"
+                                        dataKey={metricKey(m.key, sr)}
+                                        stroke={COLORS[m.colorKey]}
+                                        strokeOpacity={0.6}
+                                        strokeWidth={1}
+                                        dot={false}
+                                        connectNulls
+                                        isAnimationActive={false}
+                                    />
+                                ))
+                            )}
+                        </ComposedChart>
+                    </Brush>
+                </ComposedChart>
+            </ResponsiveContainer>
+        </div>
+    )
+}
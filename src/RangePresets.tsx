@@ -0,0 +1,43 @@
+const DAY = 24 * 60 * 60 * 1000
+
+const PRESETS: Array<{ label: string; duration: number | null }> = [
+    { label: "1D", duration: DAY },
+    { label: "1W", duration: 7 * DAY },
+    { label: "1M", duration: 30 * DAY },
+    { label: "All", duration: null },
+]
+
+type RangePresetsProps = {
+    /** Wall-clock length of the preset in use; null when everything is shown, undefined for a custom window. */
+    active: number | null | undefined
+    onSelect: (duration: number | null) => void
+}
+
+export default function RangePresets({ active, onSelect }: RangePresetsProps) {
+    return (
+        <div style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+            {PRESETS.map((p) => {
+                const isActive = p.duration === active
+                return (
+                    <button
+                        key={p.label}
+                        type="button"
+                        aria-pressed={isActive}
+                        onClick={() => onSelect(p.duration)}
+                        style={{
+                            border: `1px solid ${isActive ? "#bbb" : "#333"}`,
+                            borderRadius: 4,
+                            background: isActive ? "#222" : "transparent",
+                            color: isActive ? "#fff" : "#888",
+                            cursor: "pointer",
+                            fontSize: 12,
+                            padding: "2px 8px",
+                        }}
+                    >
+                        {p.label}
+                    </button>
+                )
+            })}
+        </div>
+    )
+}
@@ -0,0 +1,154 @@
+import { useRef, useState, type ChangeEvent } from "react"
+import { downloadBlob } from "./exportImage"
+import { loadSavedViews, mergeViews, parseViewsJson, storeSavedViews, viewsToJson, type SavedView } from "./savedViews"
+
+type SavedViewsMenuProps = {
+    /** Query string of the view on screen, saved under a name. */
+    currentQuery: string
+    onSelect: (view: SavedView) => void
+}
+
+const buttonStyle = {
+    border: "1px solid #333",
+    borderRadius: 4,
+    background: "transparent",
+    color: "#bbb",
+    cursor: "pointer",
+    fontSize: 12,
+    padding: "1px 8px",
+}
+
+const inputStyle = {
+    background: "transparent",
+    border: "1px solid #333",
+    borderRadius: 4,
+    color: "#bbb",
+    fontSize: 12,
+    padding: "1px 4px",
+}
+
+export default function SavedViewsMenu({ currentQuery, onSelect }: SavedViewsMenuProps) {
+    const [views, setViews] = useState<SavedView[]>(loadSavedViews)
+    const [open, setOpen] = useState(false)
+    const [name, setName] = useState("")
+    const [error, setError] = useState<string | null>(null)
+    const fileInput = useRef<HTMLInputElement>(null)
+
+    // The view whose settings are on screen, if any
+    const current = views.find((v) => v.query === currentQuery)
+
+    // Stored first, so the list only changes once the browser has kept it
+    const update = (next: SavedView[]) => {
+        try {
+            storeSavedViews(next)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err))
+            return false
+        }
+        setViews(next)
+        setError(null)
+        return true
+    }
+
+    const save = () => {
+        const trimmed = name.trim()
+        if (!trimmed) return
+        if (update(mergeViews(views, [{ name: trimmed, query: currentQuery }]))) setName("")
+    }
+
+    const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ""
+        if (!file) return
+        try {
+            update(mergeViews(views, parseViewsJson(await file.text())))
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err))
+        }
+    }
+
+    return (
+        <span style={{ position: "relative", display: "inline-flex", alignItems: "center", gap: 4 }}>
+            <select
+                value={current?.name ?? ""}
+                onChange={(e) => {
+                    const view = views.find((v) => v.name === e.target.value)
+                    if (view) onSelect(view)
+                }}
+                style={{ ...inputStyle, color: "#888" }}
+                aria-label="Saved views"
+            >
+                <option value="" disabled>
+                    {views.length ? "Saved views…" : "No saved views"}
+                </option>
+                {views.map((v) => (
+                    <option key={v.name} value={v.name}>{v.name}</option>
+                ))}
+            </select>
+            <button type="button" onClick={() => setOpen((o) => !o)} style={buttonStyle} aria-expanded={open}>
+                Views
+            </button>
+            {open ? (
+                <div
+                    style={{
+                        position: "absolute",
+                        top: "calc(100% + 4px)",
+                        right: 0,
+                        zIndex: 10,
+                        display: "flex",
+                        flexDirection: "column",
+                        gap: 8,
+                        padding: 10,
+                        background: "#111",
+                        border: "1px solid #333",
+                        borderRadius: 6,
+                        color: "#888",
+                        fontSize: 12,
+                        whiteSpace: "nowrap",
+                    }}
+                >
+                    <div style={{ display: "flex", gap: 6 }}>
+                        <input
+                            placeholder="Name this view"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && save()}
+                            style={{ ...inputStyle, width: 180 }}
+                        />
+                        <button type="button" onClick={save} disabled={!name.trim()} style={buttonStyle}>
+                            {views.some((v) => v.name === name.trim()) ? "Replace" : "Save"}
+                        </button>
+                    </div>
+                    {views.map((v) => (
+                        <div key={v.name} style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+                            <span style={{ color: v === current ? "#bbb" : "#888" }}>{v.name}</span>
+                            <button
+                                type="button"
+                                onClick={() => update(views.filter((x) => x !== v))}
+                                title={`Delete ${v.name}`}
+                                style={{ ...buttonStyle, padding: "0 6px" }}
+                            >
+                                ×
+                            </button>
+                        </div>
+                    ))}
+                    <div style={{ display: "flex", gap: 6 }}>
+                        <button
+                            type="button"
+                            disabled={views.length === 0}
+                            onClick={() => downloadBlob(new Blob([viewsToJson(views)], { type: "application/json" }), "chart-views.json")}
+                            style={buttonStyle}
+                        >
+                            Export JSON
+                        </button>
+                        <button type="button" onClick={() => fileInput.current?.click()} style={buttonStyle}>
+                            Import JSON
+                        </button>
+                        <input ref={fileInput} type="file" accept=".json,application/json" onChange={importFile} hidden />
+                    </div>
+                    {error ? <div style={{ color: "#ef4444" }}>{error}</div> : null}
+                </div>
+            ) : null}
+        </span>
+    )
+}
@@ -0,0 +1,51 @@
+import { COLORS, PRICE_SOURCES } from "./constants"
+import type { PriceSource, SourcePairing } from "./types"
+
+type SourcePairingControlProps = {
+    pairing: SourcePairing
+    onChange: (pairing: SourcePairing) => void
+}
+
+export default function SourcePairingControl({ pairing, onChange }: SourcePairingControlProps) {
+    const toggle = (spreadSource: PriceSource, costSource: PriceSource) => {
+        const current = pairing[spreadSource]
+        const next = current.includes(costSource)
+            ? current.filter((s) => s !== costSource)
+            : PRICE_SOURCES.map((s) => s.key).filter((s) => s === costSource || current.includes(s))
+        onChange({ ...pairing, [spreadSource]: next })
+    }
+
+    return (
+        <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 16 }}>
+            {PRICE_SOURCES.map((spread) => (
+                <div key={spread.key} style={{ display: "inline-flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+                    <span style={{ color: COLORS[`spread_${spread.key}`] }}>Spread {spread.label}</span>
+                    <span style={{ color: "#888" }}>vs cost</span>
+                    {PRICE_SOURCES.map((cost) => {
+                        const isOn = pairing[spread.key].includes(cost.key)
+                        return (
+                            <button
+                                key={cost.key}
+                                type="button"
+                                aria-pressed={isOn}
+                                onClick={() => toggle(spread.key, cost.key)}
+                                title={`Highlight Spread ${spread.label} against ${cost.label} costs`}
+                                style={{
+                                    border: `1px solid ${isOn ? "#bbb" : "#333"}`,
+                                    borderRadius: 4,
+                                    background: isOn ? "#222" : "transparent",
+                                    color: isOn ? "#fff" : "#888",
+                                    cursor: "pointer",
+                                    fontSize: 12,
+                                    padding: "1px 6px",
+                                }}
+                            >
+                                {cost.label}
+                            </button>
+                        )
+                    })}
+                </div>
+            ))}
+        </div>
+    )
+}
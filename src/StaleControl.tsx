@@ -0,0 +1,58 @@
+import type { StaleConfig } from "./types"
+
+type StaleControlProps = {
+    config: StaleConfig
+    onChange: (config: StaleConfig) => void
+    /** Metrics and series with at least one plateau in the loaded data. */
+    found: number
+}
+
+export default function StaleControl({ config, onChange, found }: StaleControlProps) {
+    return (
+        <label
+            style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}
+            title="Runs of identical snapshots on any day, e.g. a feed re-publishing its last value; drawn dotted and faded"
+        >
+            Stale runs
+            <select
+                value={config.mode}
+                onChange={(e) => onChange({ ...config, mode: e.target.value as StaleConfig["mode"] })}
+                style={{
+                    border: "1px solid #333",
+                    borderRadius: 4,
+                    background: "transparent",
+                    color: "#888",
+                    fontSize: 11,
+                    padding: "0 2px",
+                }}
+            >
+                <option value="off">off</option>
+                <option value="mark">mark</option>
+                <option value="collapse">collapse</option>
+            </select>
+            of
+            <input
+                type="number"
+                min={2}
+                step={1}
+                value={config.minRun}
+                disabled={config.mode === "off"}
+                onChange={(e) => {
+                    const value = Math.round(Number(e.target.value))
+                    onChange({ ...config, minRun: Number.isFinite(value) && value > 2 ? value : 2 })
+                }}
+                style={{
+                    width: 44,
+                    background: "transparent",
+                    border: "1px solid #333",
+                    borderRadius: 4,
+                    color: "#bbb",
+                    fontSize: 12,
+                    padding: "1px 4px",
+                }}
+            />
+            snapshots
+            {config.mode !== "off" && found ? <span style={{ color: "#bbb" }}>({found})</span> : null}
+        </label>
+    )
+}
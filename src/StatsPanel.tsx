@@ -0,0 +1,59 @@
+import type { SeriesOption } from "./App"
+import { pairLabel, pairSeriesLabel, type PairStats } from "./pairs"
+
+type StatsPanelProps = {
+    stats: PairStats[]
+    series: SeriesOption[]
+    /** Shown next to the title, e.g. "session hours" when nights and weekends are collapsed. */
+    hoursUnit: string
+}
+
+const formatHours = (h: number) => (h >= 48 ? `${(h / 24).toFixed(1)}d` : `${h.toFixed(1)}h`)
+
+export default function StatsPanel({ stats, series, hoursUnit }: StatsPanelProps) {
+    const seriesLabel = (key: string) => series.find((s) => s.key === key)?.label ?? key
+    const cell = { padding: "3px 6px", textAlign: "right" as const, whiteSpace: "nowrap" as const }
+    const head = { ...cell, color: "#888", fontWeight: 400 }
+
+    return (
+        <div style={{ color: "#bbb", fontSize: 12, paddingBottom: 12 }}>
+            <div style={{ color: "#888", padding: "0 0 6px" }}>In the money · visible range ({hoursUnit})</div>
+            {stats.length === 0 ? (
+                <div style={{ color: "#666" }}>Show a spread and a cost to compare them</div>
+            ) : (
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                        <tr>
+                            <th style={{ ...head, textAlign: "left" }}>Pair</th>
+                            <th style={head} title="Time the spread was above the cost">Above</th>
+                            <th style={head} title="Longest continuous run above the cost">Longest</th>
+                            <th style={head} title="Number of times the spread crossed the cost">Switches</th>
+                            <th style={head} title="Average spread minus cost while above">Avg margin</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {stats.map((s) => (
+                            <tr key={s.pair.id}>
+                                <td style={{ padding: "3px 6px" }}>
+                                    <div>{pairLabel(s.pair.spread, s.pair.cost)}</div>
+                                    {series.length > 1 ? <div style={{ color: "#888" }}>{pairSeriesLabel(s.pair, seriesLabel)}</div> : null}
+                                </td>
+                                <td style={cell}>
+                                    {formatHours(s.hoursAbove)}
+                                    {s.totalHours > 0 ? (
+                                        <span style={{ color: "#888" }}> {Math.round((s.hoursAbove / s.totalHours) * 100)}%</span>
+                                    ) : null}
+                                </td>
+                                <td style={cell}>{formatHours(s.longestRunHours)}</td>
+                                <td style={cell}>{s.switches}</td>
+                                <td style={{ ...cell, color: s.avgMarginInMoney === null ? "#666" : "#22c55e" }}>
+                                    {s.avgMarginInMoney === null ? "—" : s.avgMarginInMoney.toFixed(4)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    )
+}
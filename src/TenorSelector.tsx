@@ -0,0 +1,62 @@
+type TenorSelectorProps = {
+    tenors: string[]
+    selected: string[]
+    overlay: boolean
+    onChange: (selected: string[]) => void
+    onOverlayChange: (overlay: boolean) => void
+}
+
+export default function TenorSelector({
+    tenors,
+    selected,
+    overlay,
+    onChange,
+    onOverlayChange,
+}: TenorSelectorProps) {
+    if (tenors.length === 0) return null
+
+    const pick = (tenor: string) => {
+        if (!overlay) return onChange([tenor])
+
+        const isSelected = selected.includes(tenor)
+        if (isSelected && selected.length === 1) return
+        onChange(isSelected ? selected.filter((t) => t !== tenor) : tenors.filter((t) => t === tenor || selected.includes(t)))
+    }
+
+    const toggleOverlay = () => {
+        if (overlay && selected.length > 1) onChange(selected.slice(0, 1))
+        onOverlayChange(!overlay)
+    }
+
+    return (
+        <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+            <span style={{ color: "#888", fontSize: 12 }}>Tenor</span>
+            {tenors.map((tenor) => {
+                const isSelected = selected.includes(tenor)
+                return (
+                    <button
+                        key={tenor}
+                        type="button"
+                        onClick={() => pick(tenor)}
+                        aria-pressed={isSelected}
+                        style={{
+                            border: `1px solid ${isSelected ? "#bbb" : "#333"}`,
+                            borderRadius: 4,
+                            background: isSelected ? "#222" : "transparent",
+                            color: isSelected ? "#fff" : "#888",
+                            cursor: "pointer",
+                            fontSize: 12,
+                            padding: "2px 8px",
+                        }}
+                    >
+                        {tenor}
+                    </button>
+                )
+            })}
+            <label style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12, marginLeft: 8 }}>
+                <input type="checkbox" checked={overlay} onChange={toggleOverlay} />
+                Overlay tenors
+            </label>
+        </div>
+    )
+}
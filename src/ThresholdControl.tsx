@@ -0,0 +1,51 @@
+import type { HighlightThreshold } from "./types"
+
+type ThresholdControlProps = {
+    threshold: HighlightThreshold
+    onChange: (threshold: HighlightThreshold) => void
+}
+
+export default function ThresholdControl({ threshold, onChange }: ThresholdControlProps) {
+    return (
+        <label
+            style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}
+            title="The spread must beat the cost by more than this to shade green; within it the pair is shaded neutral"
+        >
+            Threshold
+            <input
+                type="number"
+                min={0}
+                step={threshold.mode === "percent" ? 1 : 0.01}
+                value={threshold.value}
+                onChange={(e) => {
+                    const value = Number(e.target.value)
+                    onChange({ ...threshold, value: Number.isFinite(value) && value > 0 ? value : 0 })
+                }}
+                style={{
+                    width: 64,
+                    background: "transparent",
+                    border: "1px solid #333",
+                    borderRadius: 4,
+                    color: "#bbb",
+                    fontSize: 12,
+                    padding: "1px 4px",
+                }}
+            />
+            <select
+                value={threshold.mode}
+                onChange={(e) => onChange({ ...threshold, mode: e.target.value as HighlightThreshold["mode"] })}
+                style={{
+                    border: "1px solid #333",
+                    borderRadius: 4,
+                    background: "transparent",
+                    color: "#888",
+                    fontSize: 11,
+                    padding: "0 2px",
+                }}
+            >
+                <option value="absolute">abs</option>
+                <option value="percent">% of cost</option>
+            </select>
+        </label>
+    )
+}
@@ -0,0 +1,37 @@
+import { DISPLAY_ZONES } from "./constants"
+import { zoneName } from "./timeZone"
+import type { DisplayZone } from "./types"
+
+type TimeZoneSelectProps = {
+    zone: DisplayZone
+    onChange: (zone: DisplayZone) => void
+}
+
+export default function TimeZoneSelect({ zone, onChange }: TimeZoneSelectProps) {
+    return (
+        <label
+            style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#888", fontSize: 12 }}
+            title="Zone of the axis, tooltip and exported timestamps; snapshots are merged on UTC either way"
+        >
+            Time zone
+            <select
+                value={zone}
+                onChange={(e) => onChange(e.target.value as DisplayZone)}
+                style={{
+                    border: "1px solid #333",
+                    borderRadius: 4,
+                    background: "transparent",
+                    color: "#888",
+                    fontSize: 11,
+                    padding: "0 2px",
+                }}
+            >
+                {DISPLAY_ZONES.map((z) => (
+                    <option key={z.key} value={z.key}>
+                        {z.key === "local" ? `${z.label} (${zoneName(z.key)})` : z.label}
+                    </option>
+                ))}
+            </select>
+        </label>
+    )
+}
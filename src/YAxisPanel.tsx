@@ -0,0 +1,98 @@
+import { METRICS } from "./constants"
+import type { AxisDomain, YAxisConfig, YAxisSide } from "./types"
+
+type YAxisPanelProps = {
+    config: YAxisConfig
+    onChange: (config: YAxisConfig) => void
+    /** Highlight pairs left unshaded because their spread and cost are on different, unlocked axes. */
+    unshadedPairs: number
+}
+
+const SIDES: Array<{ key: YAxisSide; label: string }> = [
+    { key: "left", label: "Left" },
+    { key: "right", label: "Right" },
+]
+
+const labelStyle = { display: "inline-flex", alignItems: "center", gap: 4 }
+
+const inputStyle = {
+    width: 64,
+    background: "transparent",
+    border: "1px solid #333",
+    borderRadius: 4,
+    color: "#bbb",
+    fontSize: 12,
+    padding: "1px 4px",
+}
+
+export default function YAxisPanel({ config, onChange, unshadedPairs }: YAxisPanelProps) {
+    const setBound = (side: YAxisSide, bound: keyof AxisDomain, raw: string) => {
+        const value = raw === "" ? null : Number(raw)
+        if (value !== null && !Number.isFinite(value)) return
+        onChange({ ...config, domains: { ...config.domains, [side]: { ...config.domains[side], [bound]: value } } })
+    }
+
+    return (
+        <div style={{ display: "flex", gap: 32, color: "#bbb", fontSize: 12, padding: "0 0 8px 75px" }}>
+            <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+                <div style={{ color: "#888" }}>Axis per metric</div>
+                {METRICS.map((m) => (
+                    <div key={m.key} style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                        {SIDES.map((s) => (
+                            <label key={s.key} style={labelStyle}>
+                                <input
+                                    type="radio"
+                                    name={`y-axis-${m.key}`}
+                                    checked={config.sides[m.key] === s.key}
+                                    onChange={() => onChange({ ...config, sides: { ...config.sides, [m.key]: s.key } })}
+                                />
+                                {s.label}
+                            </label>
+                        ))}
+                        <span>{m.label}</span>
+                    </div>
+                ))}
+            </div>
+
+            <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                <div style={{ color: "#888" }}>Domain (blank follows the data)</div>
+                {SIDES.map((s) => {
+                    // A locked right axis takes the left axis' scale
+                    const disabled = config.locked && s.key === "right"
+                    return (
+                        <div key={s.key} style={{ display: "flex", alignItems: "center", gap: 8, opacity: disabled ? 0.5 : 1 }}>
+                            <span style={{ width: 40 }}>{s.label}</span>
+                            {(["min", "max"] as const).map((bound) => (
+                                <label key={bound} style={labelStyle}>
+                                    {bound}
+                                    <input
+                                        type="number"
+                                        step={0.1}
+                                        placeholder="auto"
+                                        disabled={disabled}
+                                        value={config.domains[s.key][bound] ?? ""}
+                                        onChange={(e) => setBound(s.key, bound, e.target.value)}
+                                        style={inputStyle}
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    )
+                })}
+                <label style={labelStyle} title="Both axes show the same scale, so spreads and costs on either side can be compared">
+                    <input
+                        type="checkbox"
+                        checked={config.locked}
+                        onChange={(e) => onChange({ ...config, locked: e.target.checked })}
+                    />
+                    Lock axes together
+                </label>
+                {unshadedPairs ? (
+                    <div style={{ color: "#888" }}>
+                        {unshadedPairs} highlight {unshadedPairs === 1 ? "pair spans" : "pairs span"} both axes and {unshadedPairs === 1 ? "is" : "are"} not shaded; lock the axes to compare across them
+                    </div>
+                ) : null}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,140 @@
+import dayjs from "dayjs"
+import customParseFormat from "dayjs/plugin/customParseFormat"
+import type {
+  CombinedRow,
+  CostCalculationType,
+  MetricBase,
+  HistoryPoint,
+  MetricKeyForSeries,
+  OhlcField,
+  OhlcKeyForSeries,
+  PriceSource,
+  RouteData,
+  RouteKey,
+  SeriesKey,
+} from "./types.ts"
+import { parseUtc } from "./timeZone.ts"
+
+dayjs.extend(customParseFormat)
+
+export function seriesKey(routeKey: RouteKey, tenor: string): SeriesKey {
+  return `${routeKey}@${tenor}`
+}
+
+export function metricKey<S extends SeriesKey>(base: MetricBase, series: S): MetricKeyForSeries<S> {
+  return `${base}_${series}` as MetricKeyForSeries<S>
+}
+
+export function ohlcKey<S extends SeriesKey>(base: MetricBase, series: S, field: OhlcField): OhlcKeyForSeries<S> {
+  return `${metricKey(base, series)}__${field}`
+}
+
+function tenorOrder(tenor: string) {
+  const parsed = dayjs(tenor, "MMM-YY", true)
+  return parsed.isValid() ? parsed.valueOf() : Number.POSITIVE_INFINITY
+}
+
+/** Distinct tenors across all routes, nearest delivery month first. */
+export function listTenors(routes: RouteData[]): string[] {
+  const tenors = new Set<string>()
+  for (const { costs, spreads } of routes) {
+    for (const p of costs) tenors.add(p.tenor)
+    for (const p of spreads) tenors.add(p.tenor)
+  }
+  return Array.from(tenors).sort((a, b) => tenorOrder(a) - tenorOrder(b) || a.localeCompare(b))
+}
+
+const isPriceSource = (v: string | undefined): v is PriceSource => v === "acp" || v === "trayport"
+const isCostCalculationType = (v: string | undefined): v is CostCalculationType =>
+  v === "all" || v === "fixed" || v === "variable"
+
+function setPoint(row: CombinedRow, base: MetricBase, series: SeriesKey, p: HistoryPoint) {
+  row[metricKey(base, series)] = p.avg
+  row[ohlcKey(base, series, "open")] = p.open
+  row[ohlcKey(base, series, "close")] = p.close
+  row[ohlcKey(base, series, "min")] = p.min
+  row[ohlcKey(base, series, "max")] = p.max
+}
+
+/** Writes one point into its row's columns; points of unknown sources or calculation types are skipped. */
+function addPoint(row: CombinedRow, routeId: RouteKey, kind: "costs" | "spreads", p: HistoryPoint) {
+  const series = seriesKey(routeId, p.tenor)
+  const source = p.source?.toLowerCase()
+  if (!isPriceSource(source)) return
+
+  if (kind === "spreads") {
+    setPoint(row, `spread_${source}`, series, p)
+    return
+  }
+  const t = p.costCalculationType?.toLowerCase()
+  if (isCostCalculationType(t)) setPoint(row, `cost_${t}_${source}`, series, p)
+}
+
+function newRow({ timestampUk, timestampUtc }: HistoryPoint): CombinedRow {
+  const time = parseUtc(timestampUtc)
+  return { timestampUtc, timestampUk, time, x: time }
+}
+
+function combineRouteIntoMap({ route, costs, spreads }: RouteData, map: Map<string, CombinedRow>) {
+  const ensure = (p: HistoryPoint) => {
+    if (!map.has(p.timestampUtc)) map.set(p.timestampUtc, newRow(p))
+    return map.get(p.timestampUtc)!
+  }
+
+  for (const c of costs) addPoint(ensure(c), route.id, "costs", c)
+  for (const s of spreads) addPoint(ensure(s), route.id, "spreads", s)
+}
+
+/** Merges any number of routes into one row per UTC snapshot time, with `<metric>_<route.id>@<tenor>` columns. */
+export function combineRoutes(routes: RouteData[]): CombinedRow[] {
+  const map = new Map<string, CombinedRow>()
+  for (const route of routes) combineRouteIntoMap(route, map)
+
+  return Array.from(map.values()).sort((a, b) => a.time - b.time)
+}
+
+/** Index of the first row at or after `time` in rows sorted by time. */
+function lowerBound(rows: CombinedRow[], time: number) {
+  let lo = 0
+  let hi = rows.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (rows[mid].time < time) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+/**
+ * Merges newly arrived points of one route into rows already combined by `combineRoutes`,
+ * without rebuilding them. Returns a new array in which only the rows touched are new objects;
+ * new snapshot times are inserted in order (usually at the end) with `x` from `toAxis`.
+ */
+export function appendPoints(
+  rows: CombinedRow[],
+  routeId: RouteKey,
+  kind: "costs" | "spreads",
+  points: HistoryPoint[],
+  toAxis: (ms: number) => number = (ms) => ms
+): CombinedRow[] {
+  const out = rows.slice()
+  const touched = new Set<CombinedRow>()
+
+  for (const p of points) {
+    const time = parseUtc(p.timestampUtc)
+    if (!Number.isFinite(time)) continue
+
+    const idx = lowerBound(out, time)
+    let row = out[idx]
+    if (row?.time !== time) {
+      row = { ...newRow(p), x: toAxis(time) }
+      out.splice(idx, 0, row)
+    } else if (!touched.has(row)) {
+      row = { ...row }
+      out[idx] = row
+    }
+    touched.add(row)
+    addPoint(row, routeId, kind, p)
+  }
+  return out
+}
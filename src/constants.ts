@@ -1,25 +1,211 @@
-import type { MetricKey } from "./App";
+import type {
+  DedupConfig,
+  DisplayZone,
+  HighlightThreshold,
+  HistoryPoint,
+  MetricBase,
+  PairStyle,
+  PriceSource,
+  RenderMode,
+  SourcePairing,
+  StaleConfig,
+  YAxisConfig,
+} from "./types";
 
 export const METRICS: Array<{
-  key: MetricKey;
+  key: MetricBase;
   label: string;
-  colorKey: MetricKey;
+  colorKey: MetricBase;
+  kind: "spread" | "cost";
+  source: PriceSource;
 }> = [
-  { key: "spread_acp", label: "Spread ACP", colorKey: "spread_acp" },
+  { key: "spread_acp", label: "Spread ACP", colorKey: "spread_acp", kind: "spread", source: "acp" },
   {
     key: "spread_trayport",
     label: "Spread Trayport",
     colorKey: "spread_trayport",
+    kind: "spread",
+    source: "trayport",
+  },
+  { key: "cost_all_acp", label: "Cost All (ACP)", colorKey: "cost_all_acp", kind: "cost", source: "acp" },
+  {
+    key: "cost_all_trayport",
+    label: "Cost All (Trayport)",
+    colorKey: "cost_all_trayport",
+    kind: "cost",
+    source: "trayport",
+  },
+  { key: "cost_fixed_acp", label: "Cost Fixed (ACP)", colorKey: "cost_fixed_acp", kind: "cost", source: "acp" },
+  {
+    key: "cost_fixed_trayport",
+    label: "Cost Fixed (Trayport)",
+    colorKey: "cost_fixed_trayport",
+    kind: "cost",
+    source: "trayport",
+  },
+  {
+    key: "cost_variable_acp",
+    label: "Cost Variable (ACP)",
+    colorKey: "cost_variable_acp",
+    kind: "cost",
+    source: "acp",
+  },
+  {
+    key: "cost_variable_trayport",
+    label: "Cost Variable (Trayport)",
+    colorKey: "cost_variable_trayport",
+    kind: "cost",
+    source: "trayport",
   },
-  { key: "cost_all", label: "Cost All", colorKey: "cost_all" },
-  { key: "cost_fixed", label: "Cost Fixed", colorKey: "cost_fixed" },
-  { key: "cost_variable", label: "Cost Variable", colorKey: "cost_variable" },
 ];
 
 export const COLORS: Record<string, string> = {
-  cost_all: "#4afe03",
-  cost_fixed: "#0367fe",
-  cost_variable: "#38fff8",
+  cost_all_acp: "#4afe03",
+  cost_all_trayport: "#16a34a",
+  cost_fixed_acp: "#0367fe",
+  cost_fixed_trayport: "#818cf8",
+  cost_variable_acp: "#38fff8",
+  cost_variable_trayport: "#0e9f9a",
   spread_acp: "#ef4444",
   spread_trayport: "#facc15",
 };
+
+export const PRICE_SOURCES: Array<{ key: PriceSource; label: string }> = [
+  { key: "acp", label: "ACP" },
+  { key: "trayport", label: "Trayport" },
+];
+
+/** Each spread is compared against costs from the same source by default. */
+export const DEFAULT_SOURCE_PAIRING: SourcePairing = {
+  acp: ["acp"],
+  trayport: ["trayport"],
+};
+
+/** Line style per route, by position in the route list (wraps after the last entry). */
+export const ROUTE_STYLES: Array<{ strokeDasharray?: string }> = [
+  {},
+  { strokeDasharray: "6 4" },
+  { strokeDasharray: "2 3" },
+  { strokeDasharray: "10 3 2 3" },
+  { strokeDasharray: "12 6" },
+  { strokeDasharray: "1 6" },
+];
+
+export function routeStyle(index: number) {
+  return ROUTE_STYLES[index % ROUTE_STYLES.length];
+}
+
+/** Opacity per overlaid tenor, by position in the tenor selection. */
+export const TENOR_OPACITIES = [1, 0.6, 0.35, 0.2];
+
+export function tenorOpacity(index: number) {
+  return TENOR_OPACITIES[Math.min(index, TENOR_OPACITIES.length - 1)];
+}
+
+export const RENDER_MODES: Array<{ key: RenderMode; label: string }> = [
+  { key: "line", label: "Line" },
+  { key: "band", label: "Min/max band" },
+  { key: "candle", label: "Candles" },
+  { key: "ohlc", label: "OHLC bars" },
+];
+
+/** Shade as soon as the spread is above the cost. */
+export const DEFAULT_HIGHLIGHT_THRESHOLD: HighlightThreshold = { mode: "absolute", value: 0 };
+
+/** Everything on the left axis, scaled to the data, until the user splits the metrics. */
+export const DEFAULT_Y_AXIS_CONFIG: YAxisConfig = {
+  sides: {
+    spread_acp: "left",
+    spread_trayport: "left",
+    cost_all_acp: "left",
+    cost_all_trayport: "left",
+    cost_fixed_acp: "left",
+    cost_fixed_trayport: "left",
+    cost_variable_acp: "left",
+    cost_variable_trayport: "left",
+  },
+  domains: { left: { min: null, max: null }, right: { min: null, max: null } },
+  locked: false,
+};
+
+/** Metrics hidden until the user (or a shared link) shows them; `highlight` is the pair shading. */
+export const DEFAULT_HIDDEN_METRICS: Record<MetricBase | "highlight", boolean> = {
+  spread_acp: false,
+  spread_trayport: true,
+  cost_all_acp: false,
+  cost_all_trayport: true,
+  cost_fixed_acp: true,
+  cost_fixed_trayport: true,
+  cost_variable_acp: true,
+  cost_variable_trayport: true,
+  highlight: false,
+};
+
+export const DEFAULT_PAIR_STYLE: PairStyle = { aboveColor: "#22c55e", belowColor: "#ef4444", opacity: 0.12 };
+
+/** Route differential shading: "above" is where the first route beats the second. */
+export const ROUTE_DIFF_STYLE: PairStyle = { aboveColor: "#a855f7", belowColor: "#f97316", opacity: 0.1 };
+
+/** England & Wales bank holidays, on which the UK gas and power markets do not trade. */
+export const UK_MARKET_HOLIDAYS: Array<{ date: string; name: string }> = [
+  { date: "2025-01-01", name: "New Year's Day" },
+  { date: "2025-04-18", name: "Good Friday" },
+  { date: "2025-04-21", name: "Easter Monday" },
+  { date: "2025-05-05", name: "Early May bank holiday" },
+  { date: "2025-05-26", name: "Spring bank holiday" },
+  { date: "2025-08-25", name: "Summer bank holiday" },
+  { date: "2025-12-25", name: "Christmas Day" },
+  { date: "2025-12-26", name: "Boxing Day" },
+  { date: "2026-01-01", name: "New Year's Day" },
+  { date: "2026-04-03", name: "Good Friday" },
+  { date: "2026-04-06", name: "Easter Monday" },
+  { date: "2026-05-04", name: "Early May bank holiday" },
+  { date: "2026-05-25", name: "Spring bank holiday" },
+  { date: "2026-08-31", name: "Summer bank holiday" },
+  { date: "2026-12-25", name: "Christmas Day" },
+  { date: "2026-12-28", name: "Boxing Day (substitute day)" },
+  { date: "2027-01-01", name: "New Year's Day" },
+  { date: "2027-03-26", name: "Good Friday" },
+  { date: "2027-03-29", name: "Easter Monday" },
+  { date: "2027-05-03", name: "Early May bank holiday" },
+  { date: "2027-05-31", name: "Spring bank holiday" },
+  { date: "2027-08-30", name: "Summer bank holiday" },
+  { date: "2027-12-27", name: "Christmas Day (substitute day)" },
+  { date: "2027-12-28", name: "Boxing Day (substitute day)" },
+];
+
+export const DEDUP_IDENTITY_FIELDS: Array<keyof HistoryPoint> = [
+  "tenor",
+  "pointType",
+  "source",
+  "costCalculationType",
+  "open",
+  "close",
+  "min",
+  "max",
+  "avg",
+];
+
+/** Collapse identical snapshots over weekends and bank holidays. */
+export const DEFAULT_DEDUP_CONFIG: DedupConfig = {
+  weekendDays: [0, 6],
+  useHolidayCalendar: true,
+  nonTradingDays: [],
+  identityFields: DEDUP_IDENTITY_FIELDS,
+};
+
+/** Three identical snapshots in a row count as a stale plateau. */
+export const DEFAULT_STALE_CONFIG: StaleConfig = { mode: "mark", minRun: 3 };
+
+/** IANA zone of the UK market: trading sessions and closed days follow its wall clock. */
+export const MARKET_TIME_ZONE = "Europe/London";
+
+/** Weekday trading session (UK hours) kept by the "trading hours only" axis. */
+export const TRADING_SESSION = { openHour: 7, closeHour: 18 };
+
+export const DISPLAY_ZONES: Array<{ key: DisplayZone; label: string; tz?: string }> = [
+  { key: "uk", label: "UK", tz: MARKET_TIME_ZONE },
+  { key: "utc", label: "UTC", tz: "UTC" },
+  { key: "cet", label: "CET", tz: "Europe/Paris" },
+  { key: "local", label: "Browser" },
+];
@@ -1,3 +1,5 @@
+import type { HistoryPoint } from "../types.ts"
+
 export const costs: HistoryPoint[] = [
   {
     snapshotId: 958422,
@@ -0,0 +1,17 @@
+import type { Route } from "../types";
+
+export const routes: Route[] = [
+  {
+    id: "r1",
+    originHub: "NBP",
+    destinationHub: "TTF",
+    capacityProduct: "Monthly firm (IUK)",
+    notes: "Bacton → Zeebrugge via Interconnector",
+  },
+  {
+    id: "r2",
+    originHub: "NBP",
+    destinationHub: "ZTP",
+    capacityProduct: "Monthly firm (IUK)",
+  },
+];
@@ -0,0 +1,75 @@
+import type { HistoryPoint, Route, RouteData, RouteKey } from "./types.ts"
+
+export interface RouteDataProvider {
+  listRoutes(signal?: AbortSignal): Promise<Route[]>
+  loadRoute(route: Route, signal?: AbortSignal): Promise<RouteData>
+}
+
+export class DataProviderError extends Error {
+  readonly status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = "DataProviderError"
+    this.status = status
+  }
+}
+
+async function fetchArray<T>(url: string, signal?: AbortSignal): Promise<T[]> {
+  const res = await fetch(url, { signal, headers: { Accept: "application/json" } })
+  if (!res.ok) throw new DataProviderError(`GET ${url} failed with ${res.status}`, res.status)
+
+  const body: unknown = await res.json()
+  if (!Array.isArray(body)) throw new DataProviderError(`GET ${url} did not return an array`)
+  return body as T[]
+}
+
+/**
+ * Lists `Route` descriptors from `<endpoint>/routes` and loads `HistoryPoint[]` from
+ * `<endpoint>/routes/<route.id>/costs` and `.../spreads`.
+ */
+export function createHttpProvider(endpoint: string): RouteDataProvider {
+  const base = endpoint.replace(/\/+$/, "")
+
+  return {
+    listRoutes: (signal) => fetchArray<Route>(`${base}/routes`, signal),
+    async loadRoute(route, signal) {
+      const path = `${base}/routes/${encodeURIComponent(route.id)}`
+      const [costs, spreads] = await Promise.all([
+        fetchArray<HistoryPoint>(`${path}/costs`, signal),
+        fetchArray<HistoryPoint>(`${path}/spreads`, signal),
+      ])
+      return { route, costs, spreads }
+    },
+  }
+}
+
+const FIXTURES: Record<RouteKey, () => Promise<Omit<RouteData, "route">>> = {
+  r1: async () => {
+    const [{ costs }, { spreads }] = await Promise.all([import("./data/cost.ts"), import("./data/spread.ts")])
+    return { costs, spreads }
+  },
+  r2: async () => {
+    const [{ costs }, { spreads }] = await Promise.all([import("./data/cost2.ts"), import("./data/spread2.ts")])
+    return { costs, spreads }
+  },
+}
+
+/** Offline provider backed by the snapshots bundled under `src/data`. */
+export function createFixtureProvider(): RouteDataProvider {
+  return {
+    async listRoutes() {
+      const { routes } = await import("./data/routes.ts")
+      return routes.filter((r) => r.id in FIXTURES)
+    },
+    async loadRoute(route) {
+      const fixture = FIXTURES[route.id]
+      if (!fixture) throw new DataProviderError(`No bundled fixture for route ${route.id}`, 404)
+      return { route, ...(await fixture()) }
+    },
+  }
+}
+
+export function createDataProvider(endpoint = import.meta.env.VITE_DATA_ENDPOINT): RouteDataProvider {
+  return endpoint ? createHttpProvider(endpoint) : createFixtureProvider()
+}
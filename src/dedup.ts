@@ -0,0 +1,93 @@
+import dayjs, { type Dayjs } from "dayjs"
+import customParseFormat from "dayjs/plugin/customParseFormat"
+import isoWeek from "dayjs/plugin/isoWeek"
+import { UK_MARKET_HOLIDAYS } from "./constants.ts"
+import type { DedupConfig, HistoryPoint } from "./types.ts"
+
+dayjs.extend(customParseFormat)
+dayjs.extend(isoWeek)
+
+export type DedupReason = "weekend" | "holiday" | "non-trading"
+
+export const DEDUP_REASONS: Array<{ key: DedupReason; label: string }> = [
+  { key: "weekend", label: "Weekend" },
+  { key: "holiday", label: "Bank holiday" },
+  { key: "non-trading", label: "Custom non-trading day" },
+]
+
+/** What deduplication removed, accumulated across every call that shares it. */
+export type DedupAudit = {
+  /** Removed rows per ISO week ("2026-W02") and reason. */
+  weeks: Map<string, Record<DedupReason, number>>
+  /** Removed rows per kept row's `timestampUtc`. */
+  collapsed: Map<string, number>
+}
+
+export function createDedupAudit(): DedupAudit {
+  return { weeks: new Map(), collapsed: new Map() }
+}
+
+const DAY_FORMAT = "YYYY-MM-DD"
+const HOLIDAYS = new Set(UK_MARKET_HOLIDAYS.map((h) => h.date))
+
+/** Why `day` is closed under `config`, or `null` for a trading day. Holidays win over weekends. */
+export function closedReason(day: Dayjs, config: DedupConfig): DedupReason | null {
+  const date = day.format(DAY_FORMAT)
+  if (config.nonTradingDays.includes(date)) return "non-trading"
+  if (config.useHolidayCalendar && HOLIDAYS.has(date)) return "holiday"
+  if (config.weekendDays.includes(day.day())) return "weekend"
+  return null
+}
+
+/** First day of the run of closed days containing `day`, so a Friday holiday and the weekend after it share one period. */
+function closedPeriodStart(day: Dayjs, config: DedupConfig) {
+  let start = day.startOf("day")
+  // Bounded so a misconfigured calendar (every weekday closed) cannot loop forever
+  for (let i = 0; i < 31 && closedReason(start.subtract(1, "day"), config); i++) start = start.subtract(1, "day")
+  return start.format(DAY_FORMAT)
+}
+
+const isoWeekId = (d: Dayjs) => `${d.isoWeekYear()}-W${String(d.isoWeek()).padStart(2, "0")}`
+
+/**
+ * Drops snapshots on closed days that repeat an earlier snapshot of the same closed period,
+ * comparing only `config.identityFields`. Trading days and unparseable timestamps are kept as is.
+ */
+export function deduplicateClosedDays<T extends HistoryPoint>(data: T[], config: DedupConfig, audit?: DedupAudit): T[] {
+  const seen = new Map<string, string>()
+  const periods = new Map<string, string>()
+
+  return data.filter((point) => {
+    const time = dayjs(point.timestampUk, "YYYY-MM-DD HH:mm", true)
+    if (!time.isValid()) return true
+
+    const reason = closedReason(time, config)
+    if (!reason) return true
+
+    const day = time.format(DAY_FORMAT)
+    if (!periods.has(day)) periods.set(day, closedPeriodStart(time, config))
+
+    const identity = config.identityFields
+      .map((k) => {
+        const v = point[k]
+        return `${k}=${typeof v === "number" ? String(v) : String(v).trim()}`
+      })
+      .join("|")
+
+    const key = `${periods.get(day)}|${identity}`
+    const keptAt = seen.get(key)
+    if (keptAt === undefined) {
+      seen.set(key, point.timestampUtc)
+      return true
+    }
+
+    if (audit) {
+      const week = isoWeekId(time)
+      const counts = audit.weeks.get(week) ?? { weekend: 0, holiday: 0, "non-trading": 0 }
+      counts[reason]++
+      audit.weeks.set(week, counts)
+      audit.collapsed.set(keptAt, (audit.collapsed.get(keptAt) ?? 0) + 1)
+    }
+    return false
+  })
+}
@@ -0,0 +1,129 @@
+const SVG_NS = "http://www.w3.org/2000/svg"
+
+/** Page background, so exported charts keep the dark theme outside the app. */
+export const EXPORT_BACKGROUND = "hsl(240deg 30% 5%)"
+
+export type ExportLegendEntry = { label: string; color: string; strokeDasharray?: string }
+
+export type ExportImageOptions = {
+  title: string
+  subtitle?: string
+  legend: ExportLegendEntry[]
+  width: number
+  height: number
+}
+
+const TITLE_HEIGHT = 56
+const LEGEND_ROW_HEIGHT = 22
+const PADDING = 16
+
+function el<K extends keyof SVGElementTagNameMap>(name: K, attrs: Record<string, string | number>) {
+  const node = document.createElementNS(SVG_NS, name)
+  for (const [key, value] of Object.entries(attrs)) node.setAttribute(key, String(value))
+  return node
+}
+
+function text(content: string, attrs: Record<string, string | number>) {
+  const node = el("text", attrs)
+  node.textContent = content
+  return node
+}
+
+// Rough width of a legend label, good enough to wrap entries into rows
+const approxTextWidth = (s: string, fontSize: number) => s.length * fontSize * 0.6
+
+/**
+ * Builds a standalone SVG document from the rendered chart: a dark background, a title,
+ * the chart scaled into the requested size and an SVG copy of the (HTML) legend.
+ */
+export function buildExportSvg(chart: SVGSVGElement, options: ExportImageOptions): string {
+  const { title, subtitle, legend, width, height } = options
+  const fontFamily = getComputedStyle(chart).fontFamily || "sans-serif"
+
+  // Lay the legend out first so the chart gets whatever height is left
+  const rows: Array<Array<ExportLegendEntry & { x: number }>> = [[]]
+  let cursor = PADDING
+  for (const entry of legend) {
+    const w = 28 + approxTextWidth(entry.label, 12) + 16
+    if (cursor + w > width - PADDING && rows[rows.length - 1].length) {
+      rows.push([])
+      cursor = PADDING
+    }
+    rows[rows.length - 1].push({ ...entry, x: cursor })
+    cursor += w
+  }
+  const legendHeight = legend.length ? rows.length * LEGEND_ROW_HEIGHT + PADDING : 0
+
+  const root = el("svg", { xmlns: SVG_NS, width, height, viewBox: `0 0 ${width} ${height}`, "font-family": fontFamily })
+  root.appendChild(el("rect", { x: 0, y: 0, width, height, fill: EXPORT_BACKGROUND }))
+  root.appendChild(text(title, { x: PADDING, y: PADDING + 16, fill: "#fff", "font-size": 18 }))
+  if (subtitle) root.appendChild(text(subtitle, { x: PADDING, y: PADDING + 36, fill: "#888", "font-size": 12 }))
+
+  const source = chart.getBoundingClientRect()
+  const plot = chart.cloneNode(true) as SVGSVGElement
+  plot.setAttribute("x", "0")
+  plot.setAttribute("y", String(TITLE_HEIGHT))
+  plot.setAttribute("width", String(width))
+  plot.setAttribute("height", String(Math.max(height - TITLE_HEIGHT - legendHeight, 0)))
+  plot.setAttribute("viewBox", `0 0 ${source.width} ${source.height}`)
+  plot.setAttribute("preserveAspectRatio", "xMidYMid meet")
+  plot.removeAttribute("style")
+  root.appendChild(plot)
+
+  rows.forEach((row, rowIdx) => {
+    const y = height - legendHeight + rowIdx * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2
+    for (const entry of row) {
+      root.appendChild(
+        el("line", {
+          x1: entry.x,
+          x2: entry.x + 20,
+          y1: y,
+          y2: y,
+          stroke: entry.color,
+          "stroke-width": 2,
+          ...(entry.strokeDasharray ? { "stroke-dasharray": entry.strokeDasharray } : {}),
+        })
+      )
+      root.appendChild(text(entry.label, { x: entry.x + 28, y: y + 4, fill: entry.color, "font-size": 12 }))
+    }
+  })
+
+  return new XMLSerializer().serializeToString(root)
+}
+
+/** Rasterises an SVG document; `scale` > 1 gives sharper output on high-DPI screens. */
+export function svgToPng(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }))
+    const img = new Image()
+    img.onload = () => {
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.round(width * scale)
+      canvas.height = Math.round(height * scale)
+      const ctx = canvas.getContext("2d")
+      if (!ctx) {
+        URL.revokeObjectURL(url)
+        reject(new Error("Canvas 2D context is not available"))
+        return
+      }
+      ctx.scale(scale, scale)
+      ctx.drawImage(img, 0, 0, width, height)
+      URL.revokeObjectURL(url)
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png")
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Could not load the exported SVG"))
+    }
+    img.src = url
+  })
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
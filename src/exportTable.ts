@@ -0,0 +1,80 @@
+import { metricKey } from "./combine.ts"
+import { DISPLAY_ZONES, METRICS } from "./constants.ts"
+import type { DedupReason } from "./dedup.ts"
+import { pairLabel, pairMarginKey, pairSeriesLabel, type MetricPair } from "./pairs.ts"
+import { toWallClock, zoneName } from "./timeZone.ts"
+import type { CombinedRow, DisplayZone, SeriesKey } from "./types.ts"
+import type { XlsxCell } from "./xlsx.ts"
+
+export type ExportColumn = { header: string; value: (row: CombinedRow) => XlsxCell }
+
+export type TableExportOptions = {
+  series: Array<{ key: SeriesKey; label: string }>
+  hidden: Record<string, boolean>
+  pairs: MetricPair[]
+  includeMargins: boolean
+  includeDedupFlags: boolean
+  /** Zone of the first timestamp column; a UTC column always follows. */
+  zone: DisplayZone
+  /** Closed-day duplicates dropped per kept `timestampUtc`. */
+  collapsed: Map<string, number>
+  closedReason: (timestampUk: string) => DedupReason | null
+}
+
+/** An instant as a Date whose UTC fields read as the wall clock of `zone`, for spreadsheet cells. */
+export function wallClockDate(ms: number, zone: DisplayZone) {
+  return new Date(toWallClock(ms, zone))
+}
+
+/** Timestamps, one column per visible metric and series, then the optional margins and dedup flags. */
+export function exportColumns(options: TableExportOptions) {
+  const { series, hidden, pairs, includeMargins, includeDedupFlags, zone, collapsed, closedReason } = options
+  const seriesLabel = (key: SeriesKey) => series.find((s) => s.key === key)?.label ?? key
+
+  const columns: ExportColumn[] = []
+  if (zone !== "utc") {
+    const label = zone === "local" ? zoneName(zone) : DISPLAY_ZONES.find((z) => z.key === zone)?.label
+    columns.push({ header: `Timestamp (${label})`, value: (row) => wallClockDate(row.time, zone) })
+  }
+  columns.push({ header: "Timestamp (UTC)", value: (row) => wallClockDate(row.time, "utc") })
+
+  for (const sr of series) {
+    for (const m of METRICS) {
+      if (hidden[m.key]) continue
+      columns.push({ header: `${m.label} · ${sr.label}`, value: (row) => row[metricKey(m.key, sr.key)] })
+    }
+  }
+
+  if (includeMargins) {
+    for (const pair of pairs) {
+      columns.push({
+        header: `${pairLabel(pair.spread, pair.cost)} · ${pairSeriesLabel(pair, seriesLabel)}`,
+        value: (row) => row[pairMarginKey(pair)],
+      })
+    }
+  }
+
+  if (includeDedupFlags) {
+    columns.push(
+      { header: "Closed day", value: (row) => closedReason(row.timestampUk) ?? "" },
+      { header: "Duplicates collapsed", value: (row) => collapsed.get(row.timestampUtc) ?? 0 }
+    )
+  }
+
+  return columns
+}
+
+/** Header row followed by one row per data row. */
+export function buildTable(rows: CombinedRow[], columns: ExportColumn[]): XlsxCell[][] {
+  return [columns.map((c) => c.header), ...rows.map((row) => columns.map((c) => c.value(row)))]
+}
+
+function csvCell(value: XlsxCell) {
+  if (value === null || value === undefined) return ""
+  const s = value instanceof Date ? value.toISOString().slice(0, 16).replace("T", " ") : String(value)
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export function toCsv(table: XlsxCell[][]) {
+  return table.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n"
+}
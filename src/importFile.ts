@@ -0,0 +1,199 @@
+import dayjs from "dayjs"
+import customParseFormat from "dayjs/plugin/customParseFormat"
+import { ukToUtc } from "./timeZone.ts"
+import type { HistoryPoint } from "./types.ts"
+import { validatePoint, type PointKind } from "./validation.ts"
+
+dayjs.extend(customParseFormat)
+
+export type ImportKind = PointKind
+
+export type ParsedFile = {
+  name: string
+  columns: string[]
+  records: Array<Record<string, unknown>>
+}
+
+export type HistoryField = keyof HistoryPoint
+
+/** Fields a file column can be mapped to; unmapped optional fields get a default. */
+export const IMPORT_FIELDS: Array<{ key: HistoryField; label: string; required: boolean | ImportKind }> = [
+  { key: "timestampUk", label: "Timestamp (UK)", required: true },
+  { key: "timestampUtc", label: "Timestamp (UTC)", required: false },
+  { key: "snapshotId", label: "Snapshot id", required: false },
+  { key: "tenor", label: "Tenor", required: true },
+  { key: "source", label: "Source", required: true },
+  { key: "costCalculationType", label: "Cost calculation type", required: "costs" },
+  { key: "pointType", label: "Point type", required: false },
+  { key: "avg", label: "Avg", required: true },
+  { key: "open", label: "Open", required: false },
+  { key: "close", label: "Close", required: false },
+  { key: "min", label: "Min", required: false },
+  { key: "max", label: "Max", required: false },
+]
+
+export type ColumnMapping = Partial<Record<HistoryField, string>>
+
+export type ImportError = { row: number; message: string }
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ImportFileError"
+  }
+}
+
+/** RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+      continue
+    }
+
+    if (ch === '"') quoted = true
+    else if (ch === ",") {
+      row.push(field)
+      field = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else field += ch
+  }
+  if (field !== "" || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""))
+}
+
+/** Reads a `.csv` (header row first) or `.json` (array of objects, or `{ costs }`/`{ spreads }`) file. */
+export async function parseImportFile(file: File): Promise<ParsedFile> {
+  const text = await file.text()
+
+  if (/\.json$/i.test(file.name) || file.type === "application/json") {
+    let json: unknown
+    try {
+      json = JSON.parse(text)
+    } catch {
+      throw new ImportFileError(`${file.name} is not valid JSON`)
+    }
+    const list = Array.isArray(json)
+      ? json
+      : json && typeof json === "object"
+        ? Object.values(json).find(Array.isArray)
+        : undefined
+    if (!list) throw new ImportFileError(`${file.name} has no array of points`)
+
+    const records = list.filter((r): r is Record<string, unknown> => !!r && typeof r === "object")
+    const columns = Array.from(new Set(records.flatMap((r) => Object.keys(r))))
+    return { name: file.name, columns, records }
+  }
+
+  const [header, ...body] = parseCsv(text)
+  if (!header) throw new ImportFileError(`${file.name} is empty`)
+  const columns = header.map((h) => h.trim())
+  const records = body.map((cells) => Object.fromEntries(columns.map((c, i) => [c, cells[i]?.trim() ?? ""])))
+  return { name: file.name, columns, records }
+}
+
+const normalise = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+/** Maps columns whose names match a field, ignoring case and punctuation ("timestamp_uk" → timestampUk). */
+export function guessMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  for (const field of IMPORT_FIELDS) {
+    const match = columns.find((c) => normalise(c) === normalise(field.key) || normalise(c) === normalise(field.label))
+    if (match) mapping[field.key] = match
+  }
+  return mapping
+}
+
+export function missingFields(mapping: ColumnMapping, kind: ImportKind) {
+  return IMPORT_FIELDS.filter((f) => (f.required === true || f.required === kind) && !mapping[f.key])
+}
+
+const TIMESTAMP_FORMATS = ["YYYY-MM-DD HH:mm", "YYYY-MM-DDTHH:mm", "YYYY-MM-DD HH:mm:ss", "YYYY-MM-DDTHH:mm:ss"]
+
+function toTimestamp(v: unknown) {
+  const t = dayjs(String(v ?? "").trim().replace(/Z$/, ""), TIMESTAMP_FORMATS, true)
+  return t.isValid() ? t.format("YYYY-MM-DD HH:mm") : null
+}
+
+function toNumber(v: unknown) {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null
+  const s = String(v ?? "").trim()
+  if (s === "") return null
+  const n = Number(s)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Applies the mapping; rows that cannot become a valid `HistoryPoint` are reported instead of loaded. */
+export function mapRecords(records: ParsedFile["records"], mapping: ColumnMapping, kind: ImportKind) {
+  const points: HistoryPoint[] = []
+  const errors: ImportError[] = []
+  const get = (r: Record<string, unknown>, field: HistoryField) => {
+    const column = mapping[field]
+    return column === undefined ? undefined : r[column]
+  }
+
+  records.forEach((r, idx) => {
+    const row = idx + 1
+    const timestampUk = toTimestamp(get(r, "timestampUk"))
+    if (!timestampUk) return errors.push({ row, message: `Unparseable UK timestamp "${get(r, "timestampUk")}"` })
+
+    const avg = toNumber(get(r, "avg"))
+    if (avg === null) return errors.push({ row, message: `Avg "${get(r, "avg")}" is not a number` })
+
+    const tenor = String(get(r, "tenor") ?? "").trim()
+    const source = String(get(r, "source") ?? "").trim()
+    const costCalculationType = String(get(r, "costCalculationType") ?? (kind === "spreads" ? "All" : "")).trim()
+    if (!tenor || !source || !costCalculationType) {
+      return errors.push({ row, message: "Missing tenor, source or cost calculation type" })
+    }
+
+    const ohlc = (field: "open" | "close" | "min" | "max") =>
+      mapping[field] === undefined ? avg : toNumber(get(r, field))
+    const [open, close, min, max] = [ohlc("open"), ohlc("close"), ohlc("min"), ohlc("max")]
+    if (open === null || close === null || min === null || max === null) {
+      return errors.push({ row, message: "Open, close, min or max is not a number" })
+    }
+
+    const point: HistoryPoint = {
+      snapshotId: toNumber(get(r, "snapshotId")) ?? row,
+      // Rows merge on UTC, so a missing UTC column is derived from the UK time rather than copied
+      timestampUtc: toTimestamp(get(r, "timestampUtc")) ?? ukToUtc(timestampUk),
+      timestampUk,
+      tenor,
+      pointType: String(get(r, "pointType") ?? "Month"),
+      source,
+      costCalculationType,
+      open,
+      close,
+      min,
+      max,
+      avg,
+    }
+    const rejected = validatePoint(point).filter((i) => i.severity === "error")
+    if (rejected.length) return errors.push({ row, message: rejected.map((i) => i.message).join("; ") })
+    points.push(point)
+  })
+
+  return { points, errors }
+}
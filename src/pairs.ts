@@ -0,0 +1,341 @@
+import { metricKey } from "./combine.ts"
+import { METRICS } from "./constants.ts"
+import type {
+  CombinedRow,
+  CostBase,
+  HighlightPairConfig,
+  HighlightThreshold,
+  MarginKey,
+  PairStyle,
+  SeriesKey,
+  SourcePairing,
+  SpreadBase,
+} from "./types.ts"
+
+/** A spread on `series` compared against a cost on `costSeries` (usually the same series). */
+export type MetricPair = {
+  id: string
+  series: SeriesKey
+  costSeries: SeriesKey
+  spread: SpreadBase
+  cost: CostBase
+  aKey: keyof CombinedRow
+  bKey: keyof CombinedRow
+  /** Highlight fills; the default green/red when unset. */
+  style?: PairStyle
+}
+
+export type ConnectedPoint = { time: number; x: number; a: number; b: number }
+
+export function marginKey(spread: SpreadBase, cost: CostBase, series: SeriesKey, costSeries = series): MarginKey {
+  return costSeries === series ? `margin__${spread}__${cost}_${series}` : `margin__${spread}__${cost}_${series}~${costSeries}`
+}
+
+export function pairMarginKey(pair: MetricPair): MarginKey {
+  return marginKey(pair.spread, pair.cost, pair.series, pair.costSeries)
+}
+
+const LABELS: Record<string, string> = Object.fromEntries(METRICS.map((m) => [m.key, m.label]))
+
+export function pairLabel(spread: SpreadBase, cost: CostBase) {
+  return `${LABELS[spread]} − ${LABELS[cost]}`
+}
+
+/** "Route A vs Route B" for cross-series pairs, the series label otherwise. */
+export function pairSeriesLabel(pair: MetricPair, seriesLabel: (key: SeriesKey) => string) {
+  return pair.costSeries === pair.series
+    ? seriesLabel(pair.series)
+    : `${seriesLabel(pair.series)} vs ${seriesLabel(pair.costSeries)}`
+}
+
+/** Distinct spread/cost combinations among same-series `pairs`, in first-seen order. */
+export function uniqueMetricPairs(pairs: MetricPair[]): Array<{ spread: SpreadBase; cost: CostBase }> {
+  const seen = new Map<string, { spread: SpreadBase; cost: CostBase }>()
+  for (const p of pairs) {
+    if (p.costSeries === p.series) seen.set(`${p.spread}__${p.cost}`, { spread: p.spread, cost: p.cost })
+  }
+  return Array.from(seen.values())
+}
+
+/** Every visible spread against every visible cost its source is paired with, per series. */
+export function visiblePairs(series: SeriesKey[], hidden: Record<string, boolean>, pairing: SourcePairing): MetricPair[] {
+  const spreads = METRICS.filter((m) => m.kind === "spread" && !hidden[m.key])
+  const costs = METRICS.filter((m) => m.kind === "cost" && !hidden[m.key])
+
+  return series.flatMap((sr) =>
+    spreads.flatMap((s) =>
+      costs
+        .filter((c) => pairing[s.source].includes(c.source))
+        .map((c) => ({
+          id: `${sr}-${s.key}-${c.key}`,
+          series: sr,
+          costSeries: sr,
+          spread: s.key as SpreadBase,
+          cost: c.key as CostBase,
+          aKey: metricKey(s.key, sr),
+          bKey: metricKey(c.key, sr),
+        }))
+    )
+  )
+}
+
+/**
+ * The user's highlight pairs whose series are plotted and whose metrics are not hidden.
+ * Unlike `visiblePairs`, the source pairing is ignored: the user picked each pair explicitly.
+ */
+export function configuredPairs(
+  configs: HighlightPairConfig[],
+  series: SeriesKey[],
+  hidden: Record<string, boolean>
+): MetricPair[] {
+  return configs
+    .filter((c) => series.includes(c.spreadSeries) && series.includes(c.costSeries) && !hidden[c.spread] && !hidden[c.cost])
+    .map(({ id, spread, spreadSeries, cost, costSeries, aboveColor, belowColor, opacity }) => ({
+      id,
+      series: spreadSeries,
+      costSeries,
+      spread,
+      cost,
+      aKey: metricKey(spread, spreadSeries),
+      bKey: metricKey(cost, costSeries),
+      style: { aboveColor, belowColor, opacity },
+    }))
+}
+
+/**
+ * Resolves both sides of a pair at every row where they can be compared:
+ * A (the spread) is linearly interpolated across gaps along `x`, B (the cost) is forward-filled.
+ */
+export function connectPair(data: CombinedRow[], aKey: keyof CombinedRow, bKey: keyof CombinedRow): ConnectedPoint[] {
+  const n = data.length
+  const aVals = new Array<number | null>(n)
+
+  for (let i = 0; i < n; i++) {
+    const aRaw = data[i][aKey]
+    aVals[i] = typeof aRaw === "number" ? aRaw : null
+  }
+
+  // Next valid A index for each i (right neighbor)
+  const nextValidA = new Array<number>(n).fill(-1)
+  let next = -1
+  for (let i = n - 1; i >= 0; i--) {
+    if (typeof aVals[i] === "number") next = i
+    nextValidA[i] = next
+  }
+
+  const out: ConnectedPoint[] = []
+  let lastB: number | null = null
+  let prevA = -1
+
+  for (let i = 0; i < n; i++) {
+    // A: interpolate across gaps (true connectNulls)
+    let aResolved: number | null = null
+    const aRaw = aVals[i]
+
+    if (typeof aRaw === "number") {
+      aResolved = aRaw
+      prevA = i
+    } else {
+      const left = prevA
+      const right = nextValidA[i]
+      if (left !== -1 && right !== -1 && right !== left) {
+        const xL = data[left].x
+        const xR = data[right].x
+        const xI = data[i].x
+        const aL = aVals[left] as number
+        const aR = aVals[right] as number
+        const denom = xR - xL
+        if (Number.isFinite(denom) && denom !== 0) {
+          const t = (xI - xL) / denom
+          if (Number.isFinite(t)) aResolved = aL + t * (aR - aL)
+        }
+      }
+    }
+
+    // B: forward-fill
+    const bRaw = data[i][bKey]
+    const bResolved = typeof bRaw === "number" ? bRaw : lastB
+    if (typeof bRaw === "number") lastB = bRaw
+
+    if (typeof aResolved === "number" && typeof bResolved === "number") {
+      out.push({ time: data[i].time, x: data[i].x, a: aResolved, b: bResolved })
+    }
+  }
+
+  return out
+}
+
+/** Adds a `margin__<spread>__<cost>_<series>` column (spread minus cost) for each pair. */
+export function withMargins(data: CombinedRow[], pairs: MetricPair[]): CombinedRow[] {
+  if (pairs.length === 0) return data
+
+  const rows = data.map((row) => ({ ...row }))
+  const indexByTime = new Map(rows.map((row, idx) => [row.time, idx]))
+
+  for (const pair of pairs) {
+    const key = pairMarginKey(pair)
+    for (const p of connectPair(data, pair.aKey, pair.bKey)) {
+      rows[indexByTime.get(p.time)!][key] = p.a - p.b
+    }
+  }
+  return rows
+}
+
+export type Regime = "above" | "neutral" | "below"
+
+/** Half-width of the neutral band around the cost `b`. */
+export function tolerance(b: number, threshold: HighlightThreshold) {
+  return threshold.mode === "percent" ? (Math.abs(b) * threshold.value) / 100 : threshold.value
+}
+
+/** Whether a spread-minus-cost margin `d` beats the cost `b` by more than the threshold either way. */
+export function regimeOf(d: number, b: number, threshold: HighlightThreshold): Regime {
+  const tol = tolerance(b, threshold)
+  return d > tol ? "above" : d < -tol ? "below" : "neutral"
+}
+
+/** A stretch between two connected points (or part of one) that stays in a single regime. */
+export type PairPiece = { x0: number; x1: number; a0: number; a1: number; b0: number; b1: number; regime: Regime }
+
+/**
+ * Splits the segments between connected points where the spread crosses either edge of the
+ * tolerance band (`b ± tolerance`), interpolating both sides linearly along `x`.
+ */
+export function splitPair(points: ConnectedPoint[], threshold: HighlightThreshold): PairPiece[] {
+  const out: PairPiece[] = []
+  const lerp = (v0: number, v1: number, t: number) => v0 + t * (v1 - v0)
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[i]
+    const p1 = points[i + 1]
+    if (!(p1.x > p0.x)) continue
+
+    // Distance of the spread from the upper (+1) and lower (-1) band edges
+    const edge = (p: ConnectedPoint, side: number) => p.a - p.b - side * tolerance(p.b, threshold)
+    const cuts = [0, 1]
+    for (const side of [1, -1]) {
+      const e0 = edge(p0, side)
+      const e1 = edge(p1, side)
+      if ((e0 < 0 && e1 > 0) || (e0 > 0 && e1 < 0)) cuts.push(e0 / (e0 - e1))
+    }
+    cuts.sort((u, v) => u - v)
+
+    for (let c = 0; c < cuts.length - 1; c++) {
+      const t0 = cuts[c]
+      const t1 = cuts[c + 1]
+      if (t1 <= t0) continue
+
+      const mid = (t0 + t1) / 2
+      const aMid = lerp(p0.a, p1.a, mid)
+      const bMid = lerp(p0.b, p1.b, mid)
+      out.push({
+        x0: lerp(p0.x, p1.x, t0),
+        x1: lerp(p0.x, p1.x, t1),
+        a0: lerp(p0.a, p1.a, t0),
+        a1: lerp(p0.a, p1.a, t1),
+        b0: lerp(p0.b, p1.b, t0),
+        b1: lerp(p0.b, p1.b, t1),
+        regime: regimeOf(aMid - bMid, bMid, threshold),
+      })
+    }
+  }
+  return out
+}
+
+export type CrossingDirection = "into" | "out"
+
+/** A point where a pair's spread crosses its cost; "into" means the spread moved above the cost. */
+export type Crossing = {
+  id: string
+  pair: MetricPair
+  x: number
+  level: number
+  direction: CrossingDirection
+}
+
+/**
+ * Regime switches at the interpolated position and level. Time inside the tolerance band keeps
+ * the previous regime, so a switch needs the spread to cross the whole band.
+ */
+export function findCrossings(pieces: PairPiece[], pair: MetricPair): Crossing[] {
+  const out: Crossing[] = []
+  let inTheMoney: boolean | null = null
+
+  pieces.forEach((p, i) => {
+    if (p.regime === "neutral") return
+    const isAbove = p.regime === "above"
+    if (inTheMoney !== null && inTheMoney !== isAbove) {
+      out.push({ id: `${pair.id}-${i}`, pair, x: p.x0, level: p.a0, direction: isAbove ? "into" : "out" })
+    }
+    inTheMoney = isAbove
+  })
+  return out
+}
+
+export function pairCrossings(data: CombinedRow[], pairs: MetricPair[], threshold: HighlightThreshold): Crossing[] {
+  return pairs
+    .flatMap((pair) => findCrossings(splitPair(connectPair(data, pair.aKey, pair.bKey), threshold), pair))
+    .sort((a, b) => a.x - b.x)
+}
+
+export type PairStats = {
+  pair: MetricPair
+  /** Compared span inside the window, in hours of X axis time. */
+  totalHours: number
+  hoursAbove: number
+  longestRunHours: number
+  switches: number
+  /** Time-weighted average of spread minus cost while the spread is above the cost. */
+  avgMarginInMoney: number | null
+}
+
+const HOUR = 60 * 60 * 1000
+
+/** In-the-money statistics for one pair between `start` and `end` (X axis units). */
+export function pairStats(pieces: PairPiece[], pair: MetricPair, [start, end]: [number, number]): PairStats {
+  let total = 0
+  let above = 0
+  let marginArea = 0
+  let run = 0
+  let longest = 0
+
+  for (const p of pieces) {
+    if (p.x1 <= start || p.x0 >= end) continue
+
+    const at = (x: number) => {
+      const t = (x - p.x0) / (p.x1 - p.x0)
+      return p.a0 - p.b0 + t * (p.a1 - p.b1 - (p.a0 - p.b0))
+    }
+    const x0 = Math.max(p.x0, start)
+    const x1 = Math.min(p.x1, end)
+    const dx = x1 - x0
+    total += dx
+
+    if (p.regime !== "above") {
+      run = 0
+      continue
+    }
+    above += dx
+    marginArea += ((at(x0) + at(x1)) / 2) * dx
+    run += dx
+    longest = Math.max(longest, run)
+  }
+
+  return {
+    pair,
+    totalHours: total / HOUR,
+    hoursAbove: above / HOUR,
+    longestRunHours: longest / HOUR,
+    switches: findCrossings(pieces, pair).filter((c) => c.x >= start && c.x <= end).length,
+    avgMarginInMoney: above > 0 ? marginArea / above : null,
+  }
+}
+
+export function visiblePairStats(
+  data: CombinedRow[],
+  pairs: MetricPair[],
+  range: [number, number],
+  threshold: HighlightThreshold
+): PairStats[] {
+  return pairs.map((pair) => pairStats(splitPair(connectPair(data, pair.aKey, pair.bKey), threshold), pair, range))
+}
@@ -0,0 +1,71 @@
+import { metricKey } from "./combine.ts"
+import { METRICS, ROUTE_DIFF_STYLE } from "./constants.ts"
+import { connectPair } from "./pairs.ts"
+import type { CombinedRow, DiffKey, MetricBase, PairStyle, SeriesKey } from "./types.ts"
+
+/** The same tenor on two routes, compared metric by metric as `series` minus `other`. */
+export type RouteDiff = {
+  id: string
+  series: SeriesKey
+  other: SeriesKey
+  label: string
+}
+
+/** Shading between one metric on both sides of a differential. */
+export type DiffLayer = {
+  id: string
+  /** Metric both sides belong to, and so the Y axis they are drawn against. */
+  base: MetricBase
+  aKey: keyof CombinedRow
+  bKey: keyof CombinedRow
+  style: PairStyle
+}
+
+export function diffKey(base: MetricBase, series: SeriesKey, other: SeriesKey): DiffKey {
+  return `diff__${base}_${series}~${other}`
+}
+
+/** Lower costs and higher spreads are better, so the winning side flips with the metric kind. */
+export function beatsOther(base: MetricBase, diff: number) {
+  const kind = METRICS.find((m) => m.key === base)?.kind
+  return kind === "cost" ? diff < 0 : diff > 0
+}
+
+/** Adds a `diff__<metric>_<series>~<other>` column for every metric of every differential. */
+export function withDifferentials(data: CombinedRow[], diffs: RouteDiff[]): CombinedRow[] {
+  if (diffs.length === 0) return data
+
+  const rows = data.map((row) => ({ ...row }))
+  const indexByTime = new Map(rows.map((row, idx) => [row.time, idx]))
+
+  for (const d of diffs) {
+    for (const m of METRICS) {
+      const key = diffKey(m.key, d.series, d.other)
+      // Routes may publish at different times: the first side is interpolated, the other forward-filled
+      for (const p of connectPair(data, metricKey(m.key, d.series), metricKey(m.key, d.other))) {
+        rows[indexByTime.get(p.time)!][key] = p.a - p.b
+      }
+    }
+  }
+  return rows
+}
+
+/**
+ * Highlight layers for the visible metrics. Costs are compared the other way round,
+ * so the "above" fill always marks where the first route beats the second.
+ */
+export function diffLayers(diffs: RouteDiff[], hidden: Record<string, boolean>): DiffLayer[] {
+  return diffs.flatMap((d) =>
+    METRICS.filter((m) => !hidden[m.key]).map((m) => {
+      const own = metricKey(m.key, d.series)
+      const other = metricKey(m.key, d.other)
+      return {
+        id: `${d.id}-${m.key}`,
+        base: m.key,
+        aKey: m.kind === "cost" ? other : own,
+        bKey: m.kind === "cost" ? own : other,
+        style: ROUTE_DIFF_STYLE,
+      }
+    })
+  )
+}
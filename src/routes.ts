@@ -0,0 +1,10 @@
+import type { Route } from "./types.ts"
+
+export function routeDisplayName(route: Route) {
+  return route.name?.trim() || `${route.originHub} → ${route.destinationHub}`
+}
+
+/** One-line summary for hover titles: capacity product and notes. */
+export function routeDescription(route: Route) {
+  return [routeDisplayName(route), route.capacityProduct, route.notes].filter(Boolean).join(" · ")
+}
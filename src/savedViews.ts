@@ -0,0 +1,63 @@
+/** A named chart setup; the view is kept in its URL query string form (see `encodeViewState`). */
+export type SavedView = { name: string; query: string }
+
+const STORAGE_KEY = "route-chart:saved-views"
+const FILE_VERSION = 1
+
+export class SavedViewsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SavedViewsError"
+  }
+}
+
+function isSavedView(value: unknown): value is SavedView {
+  const v = value as Partial<SavedView> | null
+  return !!v && typeof v.name === "string" && v.name.trim() !== "" && typeof v.query === "string"
+}
+
+/** Views kept in this browser; unreadable storage counts as none. */
+export function loadSavedViews(): SavedView[] {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]")
+    return Array.isArray(parsed) ? parsed.filter(isSavedView) : []
+  } catch {
+    return []
+  }
+}
+
+/** Throws a `SavedViewsError` when storage is full or disabled. */
+export function storeSavedViews(views: SavedView[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(views))
+  } catch (err) {
+    throw new SavedViewsError(`Could not save views in this browser: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+/** `views` with `incoming` added, replacing views of the same name, sorted by name. */
+export function mergeViews(views: SavedView[], incoming: SavedView[]): SavedView[] {
+  const byName = new Map(views.map((v) => [v.name, v]))
+  for (const v of incoming) byName.set(v.name, v)
+  return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function viewsToJson(views: SavedView[]) {
+  return JSON.stringify({ version: FILE_VERSION, views }, null, 2)
+}
+
+/** Views from an exported file: `{ version, views }`, or a bare array of views. */
+export function parseViewsJson(text: string): SavedView[] {
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    throw new SavedViewsError("The file is not valid JSON")
+  }
+  const list = Array.isArray(body) ? body : (body as { views?: unknown } | null)?.views
+  if (!Array.isArray(list)) throw new SavedViewsError("Expected a list of views")
+
+  const views = list.filter(isSavedView).map((v) => ({ name: v.name.trim(), query: v.query.replace(/^\?/, "") }))
+  if (views.length === 0) throw new SavedViewsError("The file has no views with a name and a query")
+  return views
+}
@@ -0,0 +1,132 @@
+import { metricKey, ohlcKey } from "./combine.ts"
+import { METRICS } from "./constants.ts"
+import type { CombinedRow, MetricKeyForSeries, OhlcField, SegmentKey, SeriesKey, StaleConfig } from "./types.ts"
+
+/** Row indices of the first and last snapshot of a plateau, inclusive. */
+export type StaleRun = { start: number; end: number }
+
+const OHLC_FIELDS: OhlcField[] = ["open", "close", "min", "max"]
+
+export function segmentKey(kind: "fresh" | "stale", key: MetricKeyForSeries<SeriesKey>): SegmentKey {
+  return `${kind}__${key}`
+}
+
+/** Whether the row repeats the value before it inside a plateau (the plateau's own end stays fresh). */
+export function isStale(row: CombinedRow, key: MetricKeyForSeries<SeriesKey>) {
+  return row[segmentKey("stale", key)] !== undefined && row[segmentKey("fresh", key)] === undefined
+}
+
+/** Plateaus of at least `minRun` consecutive snapshots repeating the same avg and OHLC values. */
+export function findStaleRuns(data: CombinedRow[], key: MetricKeyForSeries<SeriesKey>, minRun: number): StaleRun[] {
+  const fields = [key, ...OHLC_FIELDS.map((f) => `${key}__${f}` as keyof CombinedRow)]
+  const same = (a: CombinedRow, b: CombinedRow) => fields.every((f) => a[f] === b[f])
+
+  const runs: StaleRun[] = []
+  let runStart = -1
+  let count = 0
+  let last = -1
+
+  const close = () => {
+    if (count >= minRun) runs.push({ start: runStart, end: last })
+  }
+
+  for (let i = 0; i < data.length; i++) {
+    if (data[i][key] === undefined) continue
+    if (last !== -1 && same(data[last], data[i])) {
+      count++
+    } else {
+      close()
+      runStart = i
+      count = 1
+    }
+    last = i
+  }
+  close()
+  return runs
+}
+
+/**
+ * Finds plateaus for every metric of every series. In "collapse" mode the snapshots inside a
+ * plateau are removed (rows left without any value are dropped); in both modes `fresh__`/`stale__`
+ * display columns are added for the affected metrics, and their keys returned. Metrics in `split`
+ * get the display columns even without a plateau here, e.g. when `data` is the tail of a chart
+ * that already draws them split.
+ */
+export function withStaleSegments(
+  data: CombinedRow[],
+  series: SeriesKey[],
+  config: StaleConfig,
+  split: ReadonlySet<MetricKeyForSeries<SeriesKey>> = new Set()
+) {
+  const staleKeys = new Set<MetricKeyForSeries<SeriesKey>>()
+  if (config.mode === "off" || data.length === 0) return { rows: data, staleKeys }
+
+  let rows = data.map((row) => ({ ...row }))
+  const found: Array<{ key: MetricKeyForSeries<SeriesKey>; fields: Array<keyof CombinedRow>; runs: StaleRun[] }> = []
+  for (const sr of series) {
+    for (const m of METRICS) {
+      const key = metricKey(m.key, sr)
+      const runs = findStaleRuns(rows, key, config.minRun)
+      if (runs.length) found.push({ key, fields: [key, ...OHLC_FIELDS.map((f) => ohlcKey(m.key, sr, f))], runs })
+    }
+  }
+
+  if (config.mode === "collapse") {
+    for (const { fields, runs } of found) {
+      for (const { start, end } of runs) {
+        for (let i = start + 1; i < end; i++) {
+          for (const f of fields) delete rows[i][f]
+        }
+      }
+    }
+  }
+
+  // Row indices move once empty rows are dropped, so remember the plateaus by timestamp
+  const bounds = found.map(({ key, runs }) => ({
+    key,
+    runs: runs.map((r) => ({ from: rows[r.start].x, to: rows[r.end].x })),
+  }))
+  for (const key of split) {
+    if (!bounds.some((b) => b.key === key)) bounds.push({ key, runs: [] })
+  }
+  if (config.mode === "collapse") {
+    const plotted = series.flatMap((sr) => METRICS.map((m) => metricKey(m.key, sr)))
+    rows = rows.filter((row) => plotted.some((k) => row[k] !== undefined))
+  }
+
+  for (const { key, runs } of bounds) {
+    staleKeys.add(key)
+    const fresh = segmentKey("fresh", key)
+    const stale = segmentKey("stale", key)
+    const values = interpolated(rows, key)
+
+    rows.forEach((row, i) => {
+      const v = values[i]
+      if (v === undefined) return
+      const inRun = runs.find((r) => row.x >= r.from && row.x <= r.to)
+      if (inRun) row[stale] = v
+      if (!inRun || row.x === inRun.from || row.x === inRun.to) row[fresh] = v
+    })
+  }
+
+  return { rows, staleKeys }
+}
+
+/** The metric at every row between its first and last snapshot, linear along `x` across gaps. */
+function interpolated(rows: CombinedRow[], key: keyof CombinedRow): Array<number | undefined> {
+  const out = new Array<number | undefined>(rows.length)
+  let prev = -1
+  for (let i = 0; i < rows.length; i++) {
+    const v = rows[i][key]
+    if (typeof v !== "number") continue
+    out[i] = v
+    if (prev !== -1 && i - prev > 1) {
+      const v0 = rows[prev][key] as number
+      for (let j = prev + 1; j < i; j++) {
+        out[j] = v0 + ((rows[j].x - rows[prev].x) / (rows[i].x - rows[prev].x)) * (v - v0)
+      }
+    }
+    prev = i
+  }
+  return out
+}
@@ -0,0 +1,109 @@
+import { DataProviderError } from "./dataProvider.ts"
+import type { RouteKey } from "./types.ts"
+import type { PointKind } from "./validation.ts"
+
+/** One pushed batch: new points for the costs or spreads of one route, not yet validated. */
+export type StreamMessage = { routeId: RouteKey; kind: PointKind; points: unknown[] }
+
+export type StreamStatus = "connecting" | "open" | "closed"
+
+export type StreamHandlers = {
+  onMessage: (message: StreamMessage) => void
+  onStatus: (status: StreamStatus) => void
+  onError: (error: Error) => void
+}
+
+// EventSource reconnects by itself; WebSockets are reopened after this long
+const RECONNECT_DELAY = 5_000
+// Failed attempts in a row before the stream is reported as unreachable; retries carry on regardless
+const MAX_FAILURES = 3
+
+export function parseStreamMessage(data: string): StreamMessage {
+  let body: unknown
+  try {
+    body = JSON.parse(data)
+  } catch {
+    throw new DataProviderError("Stream message is not JSON")
+  }
+
+  const msg = body as Partial<StreamMessage> | null
+  if (!msg || typeof msg.routeId !== "string" || (msg.kind !== "costs" && msg.kind !== "spreads") || !Array.isArray(msg.points)) {
+    throw new DataProviderError("Stream message needs a routeId, a kind of costs or spreads and a points array")
+  }
+  return { routeId: msg.routeId, kind: msg.kind, points: msg.points }
+}
+
+/**
+ * Subscribes to pushed points: over a WebSocket for `ws://` and `wss://` URLs, over
+ * Server-Sent Events otherwise. Each message (or SSE `data:` event) is one `StreamMessage`
+ * as JSON. Returns a function that closes the connection for good.
+ */
+export function openStream(url: string, handlers: StreamHandlers): () => void {
+  let failures = 0
+  const fail = () => {
+    failures++
+    if (failures === MAX_FAILURES) handlers.onError(new DataProviderError(`Stream ${url} is unreachable after ${failures} attempts`))
+  }
+
+  const receive = (data: unknown) => {
+    if (typeof data !== "string") return
+    failures = 0
+    try {
+      handlers.onMessage(parseStreamMessage(data))
+    } catch (err) {
+      handlers.onError(err instanceof Error ? err : new Error(String(err)))
+    }
+  }
+
+  if (!/^wss?:\/\//i.test(url)) {
+    const source = new EventSource(url)
+    handlers.onStatus("connecting")
+    source.onopen = () => {
+      failures = 0
+      handlers.onStatus("open")
+    }
+    source.onmessage = (e) => receive(e.data)
+    source.onerror = () => {
+      // The browser gives up for good on a fatal response (e.g. not `text/event-stream`), and keeps retrying otherwise
+      if (source.readyState === EventSource.CLOSED) {
+        handlers.onStatus("closed")
+        handlers.onError(new DataProviderError(`Stream ${url} closed the connection and will not be retried`))
+        return
+      }
+      handlers.onStatus("connecting")
+      fail()
+    }
+    return () => {
+      source.close()
+      handlers.onStatus("closed")
+    }
+  }
+
+  let socket: WebSocket | null = null
+  let retry: ReturnType<typeof setTimeout> | undefined
+  let closed = false
+
+  const connect = () => {
+    handlers.onStatus("connecting")
+    socket = new WebSocket(url)
+    socket.onopen = () => {
+      failures = 0
+      handlers.onStatus("open")
+    }
+    socket.onmessage = (e) => receive(e.data)
+    socket.onclose = () => {
+      if (closed) return
+      handlers.onStatus("connecting")
+      fail()
+      retry = setTimeout(connect, RECONNECT_DELAY)
+    }
+  }
+  connect()
+
+  return () => {
+    closed = true
+    clearTimeout(retry)
+    socket?.close()
+    handlers.onStatus("closed")
+  }
+}
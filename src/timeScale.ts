@@ -0,0 +1,105 @@
+import dayjs from "dayjs"
+import utc from "dayjs/plugin/utc"
+import { MARKET_TIME_ZONE, TRADING_SESSION } from "./constants.ts"
+import { formatInZone, fromWallClock, toWallClock } from "./timeZone.ts"
+import type { DisplayZone } from "./types.ts"
+
+dayjs.extend(utc)
+
+export type AxisMode = "calendar" | "trading"
+
+/** Maps epoch milliseconds to X axis units and back. */
+export interface TimeClock {
+  toAxis(ms: number): number
+  fromAxis(x: number): number
+}
+
+const MINUTE = 60_000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// A Monday, so weekday arithmetic can work in whole weeks (on wall-clock readings, see `toWallClock`)
+const ORIGIN = dayjs.utc("2000-01-03")
+
+export const calendarClock: TimeClock = {
+  toAxis: (ms) => ms,
+  fromAxis: (x) => x,
+}
+
+/**
+ * Collapses nights and weekends: only time inside the weekday trading session advances the axis.
+ * Points outside the session are pinned to the nearest session edge, so order is preserved.
+ * The session follows the market's wall clock, so it opens at the same UK hour across DST changes.
+ */
+export function createTradingClock(session = TRADING_SESSION, zone = MARKET_TIME_ZONE): TimeClock {
+  const sessionLen = (session.closeHour - session.openHour) * HOUR
+
+  return {
+    toAxis(ms) {
+      const t = dayjs.utc(toWallClock(ms, zone))
+      const days = t.startOf("day").diff(ORIGIN, "day")
+      const weeks = Math.floor(days / 7)
+      const weekday = days - weeks * 7
+      const sessionsBefore = weeks * 5 + Math.min(weekday, 5)
+      if (weekday >= 5) return sessionsBefore * sessionLen
+
+      const sinceOpen = t.diff(t.startOf("day"), "millisecond") - session.openHour * HOUR
+      return sessionsBefore * sessionLen + Math.min(Math.max(sinceOpen, 0), sessionLen)
+    },
+    fromAxis(x) {
+      const sessionIdx = Math.floor(x / sessionLen)
+      const weeks = Math.floor(sessionIdx / 5)
+      const day = ORIGIN.add(weeks * 7 + (sessionIdx - weeks * 5), "day")
+      return fromWallClock(day.add(session.openHour, "hour").add(x - sessionIdx * sessionLen, "millisecond").valueOf(), zone)
+    },
+  }
+}
+
+export function clockFor(mode: AxisMode): TimeClock {
+  return mode === "trading" ? createTradingClock() : calendarClock
+}
+
+const TICK_STEPS = [HOUR, 2 * HOUR, 3 * HOUR, 6 * HOUR, 12 * HOUR, DAY, 2 * DAY, 7 * DAY, 14 * DAY, 28 * DAY]
+
+/** Step between ticks, chosen so the visible wall-clock span gets at most `maxTicks` ticks. */
+export function tickStep([min, max]: [number, number], clock: TimeClock, maxTicks = 8) {
+  const spanMs = clock.fromAxis(max) - clock.fromAxis(min)
+  return TICK_STEPS.find((step) => spanMs / step <= maxTicks) ?? TICK_STEPS[TICK_STEPS.length - 1]
+}
+
+/**
+ * Ticks on round wall-clock times of `zone` (whole hours, midnights, Mondays) in axis units.
+ * Ticks that collapse onto the same axis position in trading mode, or onto the same instant
+ * around a DST change, are dropped.
+ */
+export function buildTimeTicks(
+  [min, max]: [number, number],
+  clock: TimeClock,
+  zone: DisplayZone,
+  maxTicks = 8
+): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max) || max <= min) return []
+
+  const start = toWallClock(clock.fromAxis(min), zone)
+  const end = toWallClock(clock.fromAxis(max), zone)
+  const step = tickStep([min, max], clock, maxTicks)
+
+  let t = dayjs.utc(start).startOf(step >= DAY ? "day" : "hour")
+  if (step >= 7 * DAY) t = t.subtract((t.day() + 6) % 7, "day")
+  if (step < DAY) t = t.hour(Math.floor(t.hour() / (step / HOUR)) * (step / HOUR))
+
+  // Wall-clock readings have no DST, so whole days are always 24h here
+  const advance = (d: dayjs.Dayjs) => (step >= DAY ? d.add(step / DAY, "day") : d.add(step, "millisecond"))
+
+  const ticks: number[] = []
+  for (; t.valueOf() <= end; t = advance(t)) {
+    const x = clock.toAxis(fromWallClock(t.valueOf(), zone))
+    if (x < min || x > max || ticks[ticks.length - 1] === x) continue
+    ticks.push(x)
+  }
+  return ticks
+}
+
+export function formatTick(ms: number, step: number, zone: DisplayZone) {
+  return formatInZone(ms, zone, step >= DAY ? "DD MMM" : "DD MMM HH:mm")
+}
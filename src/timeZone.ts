@@ -0,0 +1,58 @@
+import dayjs from "dayjs"
+import customParseFormat from "dayjs/plugin/customParseFormat"
+import timezone from "dayjs/plugin/timezone"
+import utc from "dayjs/plugin/utc"
+import { DISPLAY_ZONES } from "./constants.ts"
+import type { DisplayZone } from "./types.ts"
+
+dayjs.extend(customParseFormat)
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+const MINUTE = 60_000
+
+/** IANA name of a display zone; "local" resolves to the browser's zone. */
+export function zoneName(zone: DisplayZone | string): string {
+  if (zone === "local") return dayjs.tz.guess()
+  return DISPLAY_ZONES.find((z) => z.key === zone)?.tz ?? zone
+}
+
+/** Epoch milliseconds of a "YYYY-MM-DD HH:mm" UTC timestamp, or NaN when it does not parse. */
+export function parseUtc(timestamp: string) {
+  const t = dayjs.utc(timestamp, "YYYY-MM-DD HH:mm", true)
+  return t.isValid() ? t.valueOf() : Number.NaN
+}
+
+/**
+ * The wall-clock reading of an instant in `zone`, stored as epoch milliseconds of the same
+ * fields in UTC. Calendar arithmetic on it (start of day, whole days) is free of DST shifts.
+ */
+export function toWallClock(ms: number, zone: DisplayZone | string) {
+  return ms + dayjs(ms).tz(zoneName(zone)).utcOffset() * MINUTE
+}
+
+/**
+ * The instant a wall-clock reading (see `toWallClock`) refers to in `zone`. When clocks go back
+ * the earlier of the two instants is returned; a reading skipped when they go forward maps past the gap.
+ */
+export function fromWallClock(wall: number, zone: DisplayZone | string) {
+  return dayjs.tz(dayjs.utc(wall).format("YYYY-MM-DD HH:mm:ss.SSS"), zoneName(zone)).valueOf()
+}
+
+/** The "YYYY-MM-DD HH:mm" UTC timestamp of a UK market wall-clock timestamp in the same format. */
+export function ukToUtc(timestampUk: string) {
+  return dayjs.utc(fromWallClock(parseUtc(timestampUk), "uk")).format("YYYY-MM-DD HH:mm")
+}
+
+export function formatInZone(ms: number, zone: DisplayZone, format: string) {
+  return dayjs(ms).tz(zoneName(zone)).format(format)
+}
+
+/** Short label for a display zone at a given instant, e.g. "BST", "UTC" or "GMT+2". */
+export function zoneAbbreviation(ms: number, zone: DisplayZone) {
+  const name = zoneName(zone)
+  const part = new Intl.DateTimeFormat("en-GB", { timeZone: name, timeZoneName: "short" })
+    .formatToParts(ms)
+    .find((p) => p.type === "timeZoneName")
+  return part?.value ?? name
+}
@@ -11,26 +11,107 @@ export interface HistoryPoint {
   min: number;
   max: number;
   avg: number;
+  /** Feed-side sequence number; carried through but not used by the chart. */
+  counter?: number;
 }
-export type RouteKey = "r1" | "r2";
-export type RouteData = { costs: HistoryPoint[]; spreads: HistoryPoint[] };
-export type CostBase = "cost_all" | "cost_fixed" | "cost_variable";
-export type SpreadBase = "spread_acp" | "spread_trayport";
+export type RouteKey = string;
+export interface Route {
+  id: RouteKey;
+  /** Display name, e.g. "NBP → TTF"; derived from the hubs when omitted. */
+  name?: string;
+  originHub: string;
+  destinationHub: string;
+  capacityProduct: string;
+  notes?: string;
+}
+export type RouteData = { route: Route; costs: HistoryPoint[]; spreads: HistoryPoint[] };
+export type PriceSource = "acp" | "trayport";
+export type CostCalculationType = "all" | "fixed" | "variable";
+export type CostBase = `cost_${CostCalculationType}_${PriceSource}`;
+export type SpreadBase = `spread_${PriceSource}`;
 export type MetricBase = CostBase | SpreadBase;
-export type MetricKeyForRoute<R extends RouteKey> = `${MetricBase}_${R}`;
+/** Which cost sources each spread source is compared against in the highlighter. */
+export type SourcePairing = Record<PriceSource, PriceSource[]>;
+/** One plotted route/tenor combination, `<routeId>@<tenor>` (see `seriesKey`). */
+export type SeriesKey = string;
+export type MetricKeyForSeries<S extends SeriesKey> = `${MetricBase}_${S}`;
+export type OhlcField = "open" | "close" | "min" | "max";
+export type OhlcKeyForSeries<S extends SeriesKey> = `${MetricKeyForSeries<S>}__${OhlcField}`;
+/** Derived spread minus cost for one pair; cross-series pairs append `~<cost series>` (see `marginKey`). */
+export type MarginKey = `margin__${SpreadBase}__${CostBase}_${SeriesKey}`;
+/** One metric on the first series minus the same metric on the other, `<series>~<other>` (see `diffKey`). */
+export type DiffKey = `diff__${MetricBase}_${SeriesKey}`;
+/**
+ * Display-only copies of a metric split at stale plateaus (see `stale.ts`): `fresh__` leaves a gap
+ * inside each plateau and `stale__` holds only the plateaus, so each can be styled on its own.
+ */
+export type SegmentKey = `${"fresh" | "stale"}__${MetricKeyForSeries<SeriesKey>}`;
+/** Runs of identical snapshots: left alone, drawn as stale, or thinned to their first and last point. */
+export type StaleConfig = { mode: "off" | "mark" | "collapse"; minRun: number };
+/** Zone the axis, tooltip and exports show times in; "local" is the browser's own zone. */
+export type DisplayZone = "uk" | "utc" | "cet" | "local";
+/** Side of the chart a metric is scaled against. */
+export type YAxisSide = "left" | "right";
+/** Manual bounds of a Y axis; a `null` bound follows the data. */
+export type AxisDomain = { min: number | null; max: number | null };
+/** Which axis each metric uses and how the axes are scaled; locked axes share the left axis' scale. */
+export type YAxisConfig = {
+  sides: Record<MetricBase, YAxisSide>;
+  domains: Record<YAxisSide, AxisDomain>;
+  locked: boolean;
+};
+/** How a metric is drawn: avg line, avg line with min/max envelope, candlesticks or OHLC bars. */
+export type RenderMode = "line" | "band" | "candle" | "ohlc";
+/**
+ * How far the spread must beat the cost before a pair counts as in the money: a fixed
+ * amount, or a percentage of the cost. The same distance below the cost counts as out.
+ */
+export type HighlightThreshold = { mode: "absolute" | "percent"; value: number };
+/** Fill colours and opacity of one pair's highlight strips. */
+export type PairStyle = { aboveColor: string; belowColor: string; opacity: number };
+/**
+ * A user-picked spread/cost pair to highlight. The two sides may come from different
+ * series, e.g. route 1's spread against route 2's cost.
+ */
+export type HighlightPairConfig = PairStyle & {
+  id: string;
+  spread: SpreadBase;
+  spreadSeries: SeriesKey;
+  cost: CostBase;
+  costSeries: SeriesKey;
+};
+/** Which days count as closed when collapsing repeated snapshots, and what makes two snapshots identical. */
+export type DedupConfig = {
+  /** Day-of-week numbers, 0 = Sunday. */
+  weekendDays: number[];
+  useHolidayCalendar: boolean;
+  /** Extra closed dates, "YYYY-MM-DD". */
+  nonTradingDays: string[];
+  identityFields: Array<keyof HistoryPoint>;
+};
+/**
+ * One row per snapshot timestamp. Values are keyed by metric, route and tenor,
+ * so several tenors of the same route can share a row without overwriting each other.
+ * The plain key holds `avg`; `__open`/`__close`/`__min`/`__max` hold the rest of the candle.
+ * `margin__*` and `diff__*` columns are derived after merging.
+ */
 export type CombinedRow = {
+  /** Merge key: UK wall-clock times repeat an hour when clocks go back, UTC never does. */
+  timestampUtc: string;
+  /** As published with the first point merged into this row. */
   timestampUk: string;
-  tenor: string;
-
-  cost_all_r1?: number;
-  cost_fixed_r1?: number;
-  cost_variable_r1?: number;
-  spread_acp_r1?: number;
-  spread_trayport_r1?: number;
-
-  cost_all_r2?: number;
-  cost_fixed_r2?: number;
-  cost_variable_r2?: number;
-  spread_acp_r2?: number;
-  spread_trayport_r2?: number;
+  /** Epoch milliseconds of `timestampUtc`. */
+  time: number;
+  /** Position on the X axis: `time`, or session time when nights and weekends are collapsed. */
+  x: number;
+} & {
+  [K in MetricKeyForSeries<SeriesKey>]?: number;
+} & {
+  [K in OhlcKeyForSeries<SeriesKey>]?: number;
+} & {
+  [K in MarginKey]?: number;
+} & {
+  [K in DiffKey]?: number;
+} & {
+  [K in SegmentKey]?: number;
 };
@@ -0,0 +1,93 @@
+import { useState } from "react"
+import { metricKey, ohlcKey } from "./combine.ts"
+import { METRICS } from "./constants.ts"
+import type { CombinedRow, MetricKeyForSeries, OhlcField, SeriesKey } from "./types.ts"
+
+/** Chart rows with stale-segment, margin and differential columns, and the metrics drawn split. */
+export type DerivedRows = { rows: CombinedRow[]; staleKeys: Set<MetricKeyForSeries<SeriesKey>> }
+
+/** Derives rows; `split` lists metrics to draw as fresh/stale segments even without a plateau in `rows`. */
+export type DeriveRows = (rows: CombinedRow[], split: ReadonlySet<MetricKeyForSeries<SeriesKey>>) => DerivedRows
+
+const OHLC_FIELDS: OhlcField[] = ["open", "close", "min", "max"]
+
+/**
+ * An index before `end` such that, for every metric of every series, the rows from it on either
+ * change value or already repeat one value `minRun` times; 0 when some metric has neither. Derived
+ * columns of the rows before it depend on nothing from `end` on: interpolation stops at a snapshot
+ * inside the range, and a plateau running past it is already long enough to count as stale.
+ * `minRun` is 1 when plateaus are not detected.
+ */
+export function settledBefore(rows: CombinedRow[], end: number, series: SeriesKey[], minRun: number) {
+  let settled = end
+  for (const sr of series) {
+    for (const m of METRICS) {
+      const fields = [metricKey(m.key, sr), ...OHLC_FIELDS.map((f) => ohlcKey(m.key, sr, f))]
+      let last = -1
+      let repeats = 0
+      let i = end - 1
+      for (; i >= 0 && repeats < minRun; i--) {
+        if (rows[i][fields[0]] === undefined) continue
+        if (last !== -1 && fields.some((f) => rows[i][f] !== rows[last][f])) break
+        last = i
+        repeats++
+      }
+      if (last === -1) continue
+      if (repeats < minRun && i < 0) return 0
+      settled = Math.min(settled, repeats < minRun ? i : last)
+    }
+  }
+  return settled
+}
+
+/**
+ * `derive(next)` for rows that only changed or grew after some point, e.g. with streamed points
+ * appended: the head of `previous` is kept and only the rows from `settledBefore` the first change
+ * are derived again, with the rows back to the previous settled point as context.
+ */
+export function extendDerived(
+  prevRows: CombinedRow[],
+  previous: DerivedRows,
+  next: CombinedRow[],
+  series: SeriesKey[],
+  minRun: number,
+  derive: DeriveRows
+): DerivedRows {
+  let changed = 0
+  while (changed < prevRows.length && changed < next.length && prevRows[changed] === next[changed]) changed++
+  if (changed === next.length && changed === prevRows.length) return previous
+
+  const start = settledBefore(next, changed, series, minRun)
+  if (start === 0 || start === changed) return derive(next, new Set())
+  const context = settledBefore(next, start, series, minRun)
+  const tail = derive(next.slice(context), previous.staleKeys)
+  // A plateau first found in the tail splits its metric's line along the whole chart
+  if ([...tail.staleKeys].some((k) => !previous.staleKeys.has(k))) return derive(next, new Set())
+
+  const from = next[start].time
+  let cut = previous.rows.length
+  while (cut > 0 && previous.rows[cut - 1].time >= from) cut--
+  return {
+    rows: previous.rows.slice(0, cut).concat(tail.rows.filter((row) => row.time >= from)),
+    staleKeys: previous.staleKeys,
+  }
+}
+
+type DerivedState = { input: CombinedRow[]; derive: DeriveRows; output: DerivedRows }
+
+/**
+ * `derive(rows)`, kept across renders: a new `derive` (its settings changed) derives every row
+ * again, while new `rows` from the same source only re-derive their changed tail. `minRun` is
+ * the plateau length `derive` marks as stale, 1 when it does not look for plateaus.
+ */
+export function useDerivedRows(rows: CombinedRow[], series: SeriesKey[], minRun: number, derive: DeriveRows) {
+  const [state, setState] = useState<DerivedState>(() => ({ input: rows, derive, output: derive(rows, new Set()) }))
+
+  let next = state
+  if (state.derive !== derive) next = { input: rows, derive, output: derive(rows, new Set()) }
+  else if (state.input !== rows) next = { input: rows, derive, output: extendDerived(state.input, state.output, rows, series, minRun, derive) }
+  // Adjusting state while rendering, like `useLiveRows`, so no frame draws stale rows
+  if (next !== state) setState(next)
+
+  return next.output
+}
@@ -0,0 +1,43 @@
+import { useState } from "react"
+import { appendPoints } from "./combine.ts"
+import type { CombinedRow, HistoryPoint, RouteKey } from "./types.ts"
+import type { RouteStreamState, StreamBatch } from "./useRouteStream.ts"
+
+type LiveState = { base: CombinedRow[]; applied: number; rows: CombinedRow[] }
+
+/**
+ * `base` rows with streamed points merged in. Only batches that arrived since the last render
+ * are appended; the stream's backlog is replayed onto `base` only when `base` itself changes
+ * (routes, tenors or the axis clock). `accept` picks the points for the current view.
+ */
+export function useLiveRows(
+  base: CombinedRow[],
+  stream: Pick<RouteStreamState, "backlog" | "recent" | "received">,
+  accept: (routeId: RouteKey, point: HistoryPoint) => boolean,
+  toAxis: (ms: number) => number
+) {
+  const [live, setLive] = useState<LiveState>({ base, applied: 0, rows: base })
+
+  const apply = (rows: CombinedRow[], batches: StreamBatch[]) => {
+    for (const { routeId, kind, points } of batches) {
+      const accepted = points.filter((p) => accept(routeId, p))
+      if (accepted.length) rows = appendPoints(rows, routeId, kind, accepted, toAxis)
+    }
+    return rows
+  }
+
+  const { backlog, recent, received } = stream
+  let next = live
+  if (live.base !== base) {
+    next = { base, applied: received, rows: apply(base, backlog) }
+  } else if (live.applied < received) {
+    const missed = received - live.applied
+    // Batches that already left `recent` are only in the backlog, so fall back to replaying it
+    const rows = missed <= recent.length ? apply(live.rows, recent.slice(-missed)) : apply(base, backlog)
+    next = { base, applied: received, rows }
+  }
+  // Adjusting state while rendering, so the chart never draws a frame without the new points
+  if (next !== live) setLive(next)
+
+  return next.rows
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from "react"
+import type { RouteDataProvider } from "./dataProvider.ts"
+import type { RouteData } from "./types.ts"
+
+export type RouteDataState =
+  | { status: "loading" }
+  | { status: "error"; error: Error }
+  | { status: "ready"; routes: RouteData[] }
+
+export function useRouteData(provider: RouteDataProvider) {
+  const [state, setState] = useState<RouteDataState>({ status: "loading" })
+  const [attempt, setAttempt] = useState(0)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    provider
+      .listRoutes(controller.signal)
+      .then((routes) => Promise.all(routes.map((route) => provider.loadRoute(route, controller.signal))))
+      .then((routes) => setState({ status: "ready", routes }))
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return
+        setState({ status: "error", error: error instanceof Error ? error : new Error(String(error)) })
+      })
+
+    return () => controller.abort()
+  }, [provider, attempt])
+
+  const reload = useCallback(() => {
+    setState({ status: "loading" })
+    setAttempt((n) => n + 1)
+  }, [])
+
+  return { state, reload }
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react"
+import { openStream, type StreamStatus } from "./stream.ts"
+import type { HistoryPoint, RouteKey } from "./types.ts"
+import { validatePoint, type PointKind } from "./validation.ts"
+
+/** Validated points of one stream message, in arrival order. */
+export type StreamBatch = { routeId: RouteKey; kind: PointKind; points: HistoryPoint[] }
+
+export type RouteStreamState = {
+  status: StreamStatus
+  /** Every route and kind streamed so far, one batch each, holding at most the newest `MAX_BACKLOG_POINTS`. */
+  backlog: StreamBatch[]
+  /** The newest batches in arrival order, at most `RECENT_BATCHES`; the last one is batch number `received`. */
+  recent: StreamBatch[]
+  /** Batches received since the page loaded. */
+  received: number
+  /** Pushed points dropped by `validatePoint`. */
+  rejected: number
+  error: Error | null
+}
+
+// An hourly feed of every tenor, source and calculation type stays well inside this for weeks
+const MAX_BACKLOG_POINTS = 20_000
+const RECENT_BATCHES = 50
+
+function addToBacklog(backlog: StreamBatch[], batch: StreamBatch): StreamBatch[] {
+  const idx = backlog.findIndex((b) => b.routeId === batch.routeId && b.kind === batch.kind)
+  if (idx === -1) return [...backlog, { ...batch, points: batch.points.slice(-MAX_BACKLOG_POINTS) }]
+  const out = backlog.slice()
+  out[idx] = { ...batch, points: backlog[idx].points.concat(batch.points).slice(-MAX_BACKLOG_POINTS) }
+  return out
+}
+
+/** Collects points pushed to `url` while `enabled`; points received before a disconnect are kept. */
+export function useRouteStream(url: string | undefined, enabled: boolean) {
+  const [state, setState] = useState<RouteStreamState>({
+    status: "closed",
+    backlog: [],
+    recent: [],
+    received: 0,
+    rejected: 0,
+    error: null,
+  })
+
+  useEffect(() => {
+    if (!url || !enabled) return
+
+    return openStream(url, {
+      // A reopened connection clears the error left by the failed attempts
+      onStatus: (status) => setState((s) => ({ ...s, status, error: status === "open" ? null : s.error })),
+      onError: (error) => setState((s) => ({ ...s, error })),
+      onMessage: ({ routeId, kind, points }) => {
+        const valid = points.filter((p) => !validatePoint(p).some((i) => i.severity === "error")) as HistoryPoint[]
+        const batch = { routeId, kind, points: valid }
+        setState((s) => ({
+          ...s,
+          error: null,
+          rejected: s.rejected + points.length - valid.length,
+          ...(valid.length
+            ? { backlog: addToBacklog(s.backlog, batch), recent: [...s.recent, batch].slice(-RECENT_BATCHES), received: s.received + 1 }
+            : {}),
+        }))
+      },
+    })
+  }, [url, enabled])
+
+  return state
+}
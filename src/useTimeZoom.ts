@@ -0,0 +1,60 @@
+import { useCallback, useMemo, useState } from "react"
+
+export type ViewRange = [number, number]
+
+/** Smallest window the user can zoom into, in X axis units (ms of wall-clock or session time). */
+const MIN_SPAN = 60 * 60 * 1000
+
+function clampRange([start, end]: ViewRange, [min, max]: ViewRange): ViewRange | null {
+  const span = Math.min(Math.max(end - start, MIN_SPAN), max - min)
+  if (span >= max - min) return null
+
+  const from = Math.min(Math.max(start, min), max - span)
+  return [from, from + span]
+}
+
+/**
+ * Visible X window over `domain`. `null` means the whole domain; every setter clamps
+ * to the domain and falls back to `null` once the window covers all of it.
+ * A window ending at the last point slides forward when the domain grows.
+ */
+export function useTimeZoom(domain: ViewRange) {
+  const [requested, setRequested] = useState<ViewRange | null>(null)
+  const [domainEnd, setDomainEnd] = useState(domain[1])
+
+  // A window reaching the end of the data keeps following it as live snapshots extend the domain
+  if (domainEnd !== domain[1]) {
+    setDomainEnd(domain[1])
+    if (requested && domain[1] > domainEnd && requested[1] >= domainEnd) {
+      const delta = domain[1] - domainEnd
+      setRequested([requested[0] + delta, requested[1] + delta])
+    }
+  }
+
+  const range = useMemo(() => (requested ? clampRange(requested, domain) : null), [requested, domain])
+  const view: ViewRange = range ?? domain
+
+  const setRange = useCallback(
+    (next: ViewRange | null) => setRequested(next && clampRange(next, domain)),
+    [domain]
+  )
+
+  const zoomAt = useCallback(
+    (anchor: number, factor: number) => {
+      const [start, end] = view
+      const at = Math.min(Math.max(anchor, start), end)
+      setRange([at - (at - start) * factor, at + (end - at) * factor])
+    },
+    [view, setRange]
+  )
+
+  const panBy = useCallback(
+    (delta: number) => {
+      if (!range) return
+      setRange([range[0] + delta, range[1] + delta])
+    },
+    [range, setRange]
+  )
+
+  return { range, view, setRange, zoomAt, panBy }
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react"
+
+// Wheel zooms and drags settle before a history entry is added
+const PUSH_DELAY = 400
+
+/**
+ * Mirrors `query` into the address bar: the first write (after loading, or after going
+ * back or forward) replaces the current entry, later ones add history entries. `onNavigate` receives the query string
+ * when the user goes back or forward. A `null` query leaves the URL alone.
+ */
+export function useUrlState(query: string | null, onNavigate: (search: string) => void) {
+  const navigate = useRef(onNavigate)
+  const settled = useRef(false)
+
+  useEffect(() => {
+    navigate.current = onNavigate
+  })
+
+  useEffect(() => {
+    if (query === null) return
+    const first = !settled.current
+    settled.current = true
+    if (query === window.location.search.replace(/^\?/, "")) return
+
+    const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`
+    if (first) {
+      window.history.replaceState(null, "", url)
+      return
+    }
+    const timer = setTimeout(() => window.history.pushState(null, "", url), PUSH_DELAY)
+    return () => clearTimeout(timer)
+  }, [query])
+
+  useEffect(() => {
+    const onPop = () => {
+      // The restored view may settle slightly differently (a window clamped to the data);
+      // that correction replaces the entry instead of cutting off the forward history
+      settled.current = false
+      navigate.current(window.location.search)
+    }
+    window.addEventListener("popstate", onPop)
+    return () => window.removeEventListener("popstate", onPop)
+  }, [])
+}
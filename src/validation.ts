@@ -0,0 +1,167 @@
+import dayjs from "dayjs"
+import customParseFormat from "dayjs/plugin/customParseFormat"
+import type { HistoryPoint, RouteData, RouteKey } from "./types.ts"
+
+dayjs.extend(customParseFormat)
+
+export type PointKind = "costs" | "spreads"
+
+/** Errors reject the point; warnings keep it but list it in the data-quality report. */
+export type IssueSeverity = "error" | "warning"
+
+export type IssueCode =
+  | "type"
+  | "timestamp"
+  | "source"
+  | "calculation-type"
+  | "ohlc"
+  | "utc-offset"
+  | "unknown-field"
+  | "repeated-values"
+
+export type PointIssue = { severity: IssueSeverity; code: IssueCode; message: string }
+
+export type ValidationIssue = PointIssue & {
+  routeId: RouteKey
+  kind: PointKind
+  /** Position of the point in the route's costs or spreads as received. */
+  index: number
+  timestampUk?: string
+}
+
+export type ValidationResult = { route: RouteData; issues: ValidationIssue[] }
+
+const NUMBER_FIELDS = ["snapshotId", "open", "close", "min", "max", "avg"] as const
+const STRING_FIELDS = ["timestampUtc", "timestampUk", "tenor", "pointType", "source", "costCalculationType"] as const
+const OPTIONAL_NUMBER_FIELDS = ["counter"] as const
+const KNOWN_FIELDS = new Set<string>([...NUMBER_FIELDS, ...STRING_FIELDS, ...OPTIONAL_NUMBER_FIELDS])
+
+const SOURCES = ["acp", "trayport"]
+const CALCULATION_TYPES = ["all", "fixed", "variable"]
+const TIMESTAMP_FORMAT = "YYYY-MM-DD HH:mm"
+
+// UK time is UTC in winter and UTC+1 in summer
+const UK_OFFSETS_MINUTES = [0, 60]
+
+/** Checks one incoming point against the `HistoryPoint` shape and its value invariants. */
+export function validatePoint(value: unknown): PointIssue[] {
+  if (!value || typeof value !== "object") {
+    return [{ severity: "error", code: "type", message: "Point is not an object" }]
+  }
+  const p = value as Record<string, unknown>
+  const issues: PointIssue[] = []
+  const error = (code: IssueCode, message: string) => issues.push({ severity: "error", code, message })
+  const warn = (code: IssueCode, message: string) => issues.push({ severity: "warning", code, message })
+
+  for (const f of NUMBER_FIELDS) {
+    if (typeof p[f] !== "number" || !Number.isFinite(p[f])) error("type", `${f} is not a number (${JSON.stringify(p[f])})`)
+  }
+  for (const f of OPTIONAL_NUMBER_FIELDS) {
+    if (p[f] !== undefined && (typeof p[f] !== "number" || !Number.isFinite(p[f]))) {
+      error("type", `${f} is not a number (${JSON.stringify(p[f])})`)
+    }
+  }
+  for (const f of STRING_FIELDS) {
+    if (typeof p[f] !== "string") error("type", `${f} is not a string (${JSON.stringify(p[f])})`)
+  }
+  for (const key of Object.keys(p)) {
+    if (!KNOWN_FIELDS.has(key)) warn("unknown-field", `Undeclared field "${key}"`)
+  }
+  if (issues.some((i) => i.severity === "error")) return issues
+
+  const point = p as unknown as HistoryPoint
+  const uk = dayjs(point.timestampUk, TIMESTAMP_FORMAT, true)
+  const utc = dayjs(point.timestampUtc, TIMESTAMP_FORMAT, true)
+  if (!uk.isValid()) error("timestamp", `Unparseable timestampUk "${point.timestampUk}"`)
+  if (!utc.isValid()) error("timestamp", `Unparseable timestampUtc "${point.timestampUtc}"`)
+  if (uk.isValid() && utc.isValid() && !UK_OFFSETS_MINUTES.includes(uk.diff(utc, "minute"))) {
+    warn("utc-offset", `UK time is ${uk.diff(utc, "minute")} minutes from UTC`)
+  }
+
+  if (!SOURCES.includes(point.source.toLowerCase())) error("source", `Unknown source "${point.source}"`)
+  if (!CALCULATION_TYPES.includes(point.costCalculationType.toLowerCase())) {
+    error("calculation-type", `Unknown cost calculation type "${point.costCalculationType}"`)
+  }
+
+  const { open, close, min, max, avg } = point
+  if (min > max) error("ohlc", `min ${min} is above max ${max}`)
+  else {
+    const outside = (Object.entries({ open, close, avg }) as Array<[string, number]>).filter(([, v]) => v < min || v > max)
+    if (outside.length) error("ohlc", `${outside.map(([k]) => k).join(", ")} outside min/max [${min}, ${max}]`)
+  }
+
+  return issues
+}
+
+/**
+ * Spreads do not depend on the cost calculation type, yet feeds repeat each spread under
+ * every type. Flags the repeats (identical values) and any disagreeing copies.
+ */
+function repeatedSpreadIssues(points: HistoryPoint[], valid: boolean[]): Array<{ index: number; issue: PointIssue }> {
+  const groups = new Map<string, number[]>()
+  points.forEach((p, idx) => {
+    if (!valid[idx]) return
+    const key = `${p.timestampUtc}|${p.tenor}|${p.source.toLowerCase()}`
+    groups.set(key, [...(groups.get(key) ?? []), idx])
+  })
+
+  const out: Array<{ index: number; issue: PointIssue }> = []
+  for (const indices of groups.values()) {
+    if (indices.length < 2) continue
+    const first = points[indices[0]]
+    for (const idx of indices.slice(1)) {
+      const p = points[idx]
+      const same = p.open === first.open && p.close === first.close && p.min === first.min && p.max === first.max && p.avg === first.avg
+      out.push({
+        index: idx,
+        issue: same
+          ? {
+              severity: "warning",
+              code: "repeated-values",
+              message: `Repeats the ${first.costCalculationType} spread under ${p.costCalculationType}`,
+            }
+          : {
+              severity: "warning",
+              code: "repeated-values",
+              message: `Differs from the ${first.costCalculationType} spread at the same time (only the last is plotted)`,
+            },
+      })
+    }
+  }
+  return out
+}
+
+/** Drops rejected points from a route and reports every issue found. */
+export function validateRouteData(data: RouteData): ValidationResult {
+  const issues: ValidationIssue[] = []
+
+  const check = (kind: PointKind, points: unknown[]) => {
+    const valid: boolean[] = []
+    points.forEach((p, index) => {
+      const pointIssues = validatePoint(p)
+      valid.push(!pointIssues.some((i) => i.severity === "error"))
+      const timestampUk = p && typeof p === "object" ? (p as Record<string, unknown>).timestampUk : undefined
+      for (const issue of pointIssues) {
+        issues.push({
+          ...issue,
+          routeId: data.route.id,
+          kind,
+          index,
+          timestampUk: typeof timestampUk === "string" ? timestampUk : undefined,
+        })
+      }
+    })
+
+    const typed = points as HistoryPoint[]
+    if (kind === "spreads") {
+      for (const { index, issue } of repeatedSpreadIssues(typed, valid)) {
+        issues.push({ ...issue, routeId: data.route.id, kind, index, timestampUk: typed[index].timestampUk })
+      }
+    }
+    return typed.filter((_, idx) => valid[idx])
+  }
+
+  const costs = check("costs", data.costs)
+  const spreads = check("spreads", data.spreads)
+  return { route: { ...data, costs, spreads }, issues }
+}
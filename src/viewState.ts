@@ -0,0 +1,260 @@
+import {
+  DEFAULT_HIDDEN_METRICS,
+  DEFAULT_HIGHLIGHT_THRESHOLD,
+  DEFAULT_PAIR_STYLE,
+  DEFAULT_SOURCE_PAIRING,
+  DEFAULT_Y_AXIS_CONFIG,
+  DISPLAY_ZONES,
+  METRICS,
+  PRICE_SOURCES,
+} from "./constants.ts"
+import type { AxisMode } from "./timeScale.ts"
+import type {
+  AxisDomain,
+  CostBase,
+  DisplayZone,
+  HighlightPairConfig,
+  HighlightThreshold,
+  MetricBase,
+  PriceSource,
+  RenderMode,
+  RouteKey,
+  SourcePairing,
+  SpreadBase,
+  YAxisConfig,
+} from "./types.ts"
+import { Y_AXIS_SIDES } from "./yAxes.ts"
+
+/** The parts of the chart a shared link restores. */
+export type ViewState = {
+  hidden: Record<MetricBase | "highlight", boolean>
+  /** `null` shows the first route only. */
+  visibleRoutes: RouteKey[] | null
+  /** Empty shows the nearest tenor. */
+  tenors: string[]
+  overlayTenors: boolean
+  axisMode: AxisMode
+  /** Zoom window in epoch milliseconds, `null` for all the data. */
+  range: [number, number] | null
+  /** Length in ms of a window kept on the newest data, e.g. "last 5 days"; used instead of `range`. */
+  trailing: number | null
+  renderModes: Record<MetricBase, RenderMode>
+  displayZone: DisplayZone
+  yAxes: YAxisConfig
+  threshold: HighlightThreshold
+  pairing: SourcePairing
+  /** `null` highlights every visible spread against its paired costs. */
+  highlightPairs: HighlightPairConfig[] | null
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  hidden: DEFAULT_HIDDEN_METRICS,
+  visibleRoutes: null,
+  tenors: [],
+  overlayTenors: false,
+  axisMode: "calendar",
+  range: null,
+  trailing: null,
+  renderModes: Object.fromEntries(METRICS.map((m) => [m.key, "line"])) as Record<MetricBase, RenderMode>,
+  displayZone: "uk",
+  yAxes: DEFAULT_Y_AXIS_CONFIG,
+  threshold: DEFAULT_HIGHLIGHT_THRESHOLD,
+  pairing: DEFAULT_SOURCE_PAIRING,
+  highlightPairs: null,
+}
+
+const METRIC_KEYS = new Set<string>(METRICS.map((m) => m.key))
+const SOURCE_KEYS = new Set<string>(PRICE_SOURCES.map((s) => s.key))
+const RENDER_MODES = new Set<string>(["line", "band", "candle", "ohlc"])
+const ZONE_KEYS = new Set<string>(DISPLAY_ZONES.map((z) => z.key))
+
+const HOUR = 60 * 60 * 1000
+
+const list = (value: string | null) => (value ? value.split(",").filter(Boolean) : [])
+
+// Route ids, tenors and the series built from them come from the data, so each is escaped
+// to keep a "," inside one from splitting it
+const encodeId = (id: string) => encodeURIComponent(id).replace(/%40/g, "@")
+const encodeIds = (ids: string[]) => ids.map(encodeId).join(",")
+
+function decodeId(id: string | undefined) {
+  if (!id) return null
+  try {
+    return decodeURIComponent(id)
+  } catch {
+    return null
+  }
+}
+
+function decodeIds(value: string | null) {
+  return list(value).map(decodeId).filter((id): id is string => id !== null)
+}
+
+// Minute precision keeps links short and makes encode(decode(x)) stable
+const formatTime = (ms: number) => new Date(ms).toISOString().slice(0, 16) + "Z"
+
+function parseTime(value: string | null) {
+  const ms = value ? Date.parse(value) : Number.NaN
+  return Number.isFinite(ms) ? ms : null
+}
+
+function encodeDomain(domain: AxisDomain) {
+  return `${domain.min ?? ""}:${domain.max ?? ""}`
+}
+
+function decodeDomain(value: string): AxisDomain | null {
+  const [min, max] = value.split(":").map((v) => (v === "" || v === undefined ? null : Number(v)))
+  if ((min !== null && !Number.isFinite(min)) || (max !== null && !Number.isFinite(max))) return null
+  return { min, max }
+}
+
+function encodePairing(pairing: SourcePairing) {
+  return PRICE_SOURCES.map((s) => `${s.key}:${pairing[s.key].join(".")}`).join(",")
+}
+
+function decodePairing(value: string): SourcePairing | null {
+  const pairing = { ...DEFAULT_SOURCE_PAIRING }
+  for (const entry of list(value)) {
+    const [spread, costs = ""] = entry.split(":")
+    if (!SOURCE_KEYS.has(spread)) return null
+    pairing[spread as PriceSource] = costs.split(".").filter((c): c is PriceSource => SOURCE_KEYS.has(c))
+  }
+  return pairing
+}
+
+function encodePair(pair: HighlightPairConfig) {
+  const fields = [pair.spread, encodeId(pair.spreadSeries), pair.cost, encodeId(pair.costSeries)]
+  const { aboveColor, belowColor, opacity } = pair
+  const isDefault =
+    aboveColor === DEFAULT_PAIR_STYLE.aboveColor &&
+    belowColor === DEFAULT_PAIR_STYLE.belowColor &&
+    opacity === DEFAULT_PAIR_STYLE.opacity
+  return (isDefault ? fields : [...fields, aboveColor, belowColor, opacity]).join(",")
+}
+
+function decodePair(value: string, idx: number): HighlightPairConfig | null {
+  const [spread, rawSpreadSeries, cost, rawCostSeries, aboveColor, belowColor, opacity] = value.split(",")
+  const spreadSeries = decodeId(rawSpreadSeries)
+  const costSeries = decodeId(rawCostSeries)
+  if (!spread?.startsWith("spread_") || !METRIC_KEYS.has(spread)) return null
+  if (!cost?.startsWith("cost_") || !METRIC_KEYS.has(cost) || !spreadSeries || !costSeries) return null
+  const alpha = Number(opacity)
+  return {
+    id: `hp-url-${idx}`,
+    spread: spread as SpreadBase,
+    spreadSeries,
+    cost: cost as CostBase,
+    costSeries,
+    aboveColor: aboveColor || DEFAULT_PAIR_STYLE.aboveColor,
+    belowColor: belowColor || DEFAULT_PAIR_STYLE.belowColor,
+    opacity: opacity && Number.isFinite(alpha) ? alpha : DEFAULT_PAIR_STYLE.opacity,
+  }
+}
+
+/** Query string (without `?`) for a view; settings at their defaults are left out. */
+export function encodeViewState(view: ViewState): string {
+  const params = new URLSearchParams()
+
+  if (METRICS.some((m) => view.hidden[m.key] !== DEFAULT_VIEW_STATE.hidden[m.key])) {
+    params.set("metrics", METRICS.filter((m) => !view.hidden[m.key]).map((m) => m.key).join(","))
+  }
+  if (view.hidden.highlight) params.set("highlight", "off")
+  if (view.visibleRoutes) params.set("routes", encodeIds(view.visibleRoutes))
+  if (view.tenors.length) params.set("tenors", encodeIds(view.tenors))
+  if (view.overlayTenors) params.set("overlay", "1")
+  if (view.axisMode !== "calendar") params.set("axis", view.axisMode)
+  if (view.trailing) params.set("last", `${Math.round(view.trailing / HOUR)}h`)
+  else if (view.range) {
+    params.set("from", formatTime(view.range[0]))
+    params.set("to", formatTime(view.range[1]))
+  }
+  const modes = METRICS.filter((m) => view.renderModes[m.key] !== "line").map((m) => `${m.key}:${view.renderModes[m.key]}`)
+  if (modes.length) params.set("render", modes.join(","))
+  if (view.displayZone !== DEFAULT_VIEW_STATE.displayZone) params.set("tz", view.displayZone)
+  const { yAxes } = view
+  const right = METRICS.filter((m) => yAxes.sides[m.key] === "right").map((m) => m.key)
+  if (right.length) params.set("right", right.join(","))
+  for (const side of Y_AXIS_SIDES) {
+    const domain = encodeDomain(yAxes.domains[side])
+    if (domain !== ":") params.set(`y${side}`, domain)
+  }
+  if (yAxes.locked) params.set("ylock", "1")
+
+  const { threshold } = view
+  if (threshold.value !== DEFAULT_HIGHLIGHT_THRESHOLD.value || threshold.mode !== DEFAULT_HIGHLIGHT_THRESHOLD.mode) {
+    params.set("threshold", threshold.mode === "percent" ? `${threshold.value}%` : String(threshold.value))
+  }
+  const pairing = encodePairing(view.pairing)
+  if (pairing !== encodePairing(DEFAULT_SOURCE_PAIRING)) params.set("pairing", pairing)
+  if (view.highlightPairs) {
+    params.set("pairs", "custom")
+    for (const pair of view.highlightPairs) params.append("pair", encodePair(pair))
+  }
+
+  // Commas, colons and @ are legal in a query string; leaving them unescaped keeps links readable
+  return params.toString().replace(/%2C/g, ",").replace(/%3A/g, ":").replace(/%40/g, "@")
+}
+
+/** The view a query string describes; missing or malformed settings fall back to their defaults. */
+export function decodeViewState(search: string): ViewState {
+  const params = new URLSearchParams(search)
+  const view: ViewState = { ...DEFAULT_VIEW_STATE }
+
+  const metrics = params.get("metrics")
+  const shown = new Set(list(metrics).filter((k) => METRIC_KEYS.has(k)))
+  if (metrics !== null && (shown.size || metrics === "")) {
+    view.hidden = { ...view.hidden }
+    for (const m of METRICS) view.hidden[m.key] = !shown.has(m.key)
+  }
+  if (params.get("highlight") === "off") view.hidden = { ...view.hidden, highlight: true }
+
+  const routes = decodeIds(params.get("routes"))
+  if (routes.length) view.visibleRoutes = routes
+  view.tenors = decodeIds(params.get("tenors"))
+  view.overlayTenors = params.get("overlay") === "1"
+  if (params.get("axis") === "trading") view.axisMode = "trading"
+
+  const from = parseTime(params.get("from"))
+  const to = parseTime(params.get("to"))
+  if (from !== null && to !== null && to > from) view.range = [from, to]
+  const last = /^(\d+)h$/.exec(params.get("last") ?? "")
+  if (last && Number(last[1]) > 0) view.trailing = Number(last[1]) * HOUR
+
+  const render = list(params.get("render"))
+  if (render.length) {
+    view.renderModes = { ...view.renderModes }
+    for (const entry of render) {
+      const [metric, mode] = entry.split(":")
+      if (METRIC_KEYS.has(metric) && RENDER_MODES.has(mode)) view.renderModes[metric as MetricBase] = mode as RenderMode
+    }
+  }
+  const tz = params.get("tz")
+  if (tz && ZONE_KEYS.has(tz)) view.displayZone = tz as DisplayZone
+  const right = new Set(list(params.get("right")))
+  const domains = { ...view.yAxes.domains }
+  for (const side of Y_AXIS_SIDES) {
+    const domain = params.get(`y${side}`)
+    if (domain) domains[side] = decodeDomain(domain) ?? domains[side]
+  }
+  view.yAxes = {
+    sides: Object.fromEntries(METRICS.map((m) => [m.key, right.has(m.key) ? "right" : "left"])) as YAxisConfig["sides"],
+    domains,
+    locked: params.get("ylock") === "1",
+  }
+
+  const threshold = params.get("threshold")
+  if (threshold) {
+    const value = Number(threshold.replace(/%$/, ""))
+    if (Number.isFinite(value) && value >= 0) view.threshold = { mode: threshold.endsWith("%") ? "percent" : "absolute", value }
+  }
+  const pairing = params.get("pairing")
+  if (pairing) view.pairing = decodePairing(pairing) ?? view.pairing
+  if (params.get("pairs") === "custom") {
+    view.highlightPairs = params
+      .getAll("pair")
+      .map(decodePair)
+      .filter((p): p is HighlightPairConfig => p !== null)
+  }
+
+  return view
+}
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the route data API; the bundled fixtures are used when unset. */
+  readonly VITE_DATA_ENDPOINT?: string
+  /** WebSocket (`ws://`, `wss://`) or Server-Sent Events URL pushing new points; live mode is off when unset. */
+  readonly VITE_STREAM_ENDPOINT?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
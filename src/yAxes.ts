@@ -0,0 +1,65 @@
+import { metricKey, ohlcKey } from "./combine.ts"
+import { METRICS } from "./constants.ts"
+import type { CombinedRow, MetricBase, RenderMode, SeriesKey, YAxisConfig, YAxisSide } from "./types.ts"
+
+export const Y_AXIS_SIDES: YAxisSide[] = ["left", "right"]
+
+/** A Recharts domain: fixed bounds, or "auto" for a rounded bound around the data. */
+export type AxisBounds = [number | "auto", number | "auto"]
+
+/** Lowest and highest plotted value of `bases` across `series`, wicks included when candles or bands show them. */
+export function axisExtent(
+  rows: CombinedRow[],
+  series: SeriesKey[],
+  bases: MetricBase[],
+  renderModes: Record<MetricBase, RenderMode>
+): [number, number] | null {
+  let min = Number.POSITIVE_INFINITY
+  let max = Number.NEGATIVE_INFINITY
+  const keys = series.flatMap((sr) =>
+    bases.flatMap((base) =>
+      renderModes[base] === "line" ? [metricKey(base, sr)] : [ohlcKey(base, sr, "min"), ohlcKey(base, sr, "max")]
+    )
+  )
+  for (const row of rows) {
+    for (const key of keys) {
+      const v = row[key]
+      if (typeof v !== "number") continue
+      if (v < min) min = v
+      if (v > max) max = v
+    }
+  }
+  return min <= max ? [min, max] : null
+}
+
+/**
+ * Domain of each Y axis. Unlocked axes round their data-driven bounds; locked axes both take
+ * the left axis' manual bounds, filled in from the combined extent of every visible metric.
+ */
+export function axisDomains(
+  config: YAxisConfig,
+  extents: Record<YAxisSide, [number, number] | null>
+): Record<YAxisSide, AxisBounds> {
+  if (!config.locked) {
+    const own = (side: YAxisSide): AxisBounds => [config.domains[side].min ?? "auto", config.domains[side].max ?? "auto"]
+    return { left: own("left"), right: own("right") }
+  }
+
+  const both = [extents.left, extents.right].filter((e): e is [number, number] => e !== null)
+  const { min, max } = config.domains.left
+  const shared: AxisBounds = [
+    min ?? (both.length ? Math.min(...both.map((e) => e[0])) : "auto"),
+    max ?? (both.length ? Math.max(...both.map((e) => e[1])) : "auto"),
+  ]
+  return { left: shared, right: shared }
+}
+
+/** Metrics assigned to `side` that are not hidden. */
+export function visibleOnSide(config: YAxisConfig, side: YAxisSide, hidden: Record<string, boolean>) {
+  return METRICS.filter((m) => config.sides[m.key] === side && !hidden[m.key]).map((m) => m.key)
+}
+
+/** Whether a spread/cost pair can be shaded: both on one axis, or the axes locked to one scale. */
+export function sharesScale(config: YAxisConfig, a: MetricBase, b: MetricBase) {
+  return config.locked || config.sides[a] === config.sides[b]
+}
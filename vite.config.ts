@@ -1,7 +1,9 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { mockApi } from './mock/mockApi'
+import { mockStream } from './mock/mockStream'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mockApi(), mockStream()],
 })